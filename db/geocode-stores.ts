@@ -5,18 +5,23 @@
  *
  * This script:
  * 1. Finds all stores with missing latitude/longitude
- * 2. Geocodes their addresses using the geocode.maps.co API
+ * 2. Geocodes their addresses using the configured geocoding provider (GEOCODING_PROVIDER)
  * 3. Updates the database with the coordinates
  *
+ * Results are cached in geocode_cache, so re-runs don't re-query addresses
+ * that were already resolved (or already found to have no results).
+ *
  * Usage:
  *   npm run geocode-stores              # Geocode stores missing coordinates
  *   npm run geocode-stores --all        # Re-geocode all stores (force update)
  *   npm run geocode-stores --dry-run    # Preview changes without updating
+ *   npm run geocode-stores --no-cache   # Always query the provider, bypassing the cache
  */
 
 import 'dotenv/config';
 import { neon } from '@neondatabase/serverless';
-import { geocodeAddress, type AddressComponents } from '../src/lib/geocode';
+import { geocodeAddress, getGeocodingProvider, type AddressComponents } from '../src/lib/geocode';
+import { createDatabaseGeocodeCache, withGeocodeCache } from '../src/lib/geocoding';
 
 const sql = neon(process.env.DATABASE_URL!);
 
@@ -31,10 +36,14 @@ interface Store {
   longitude: number | null;
 }
 
-async function geocodeStores(options: { forceAll?: boolean; dryRun?: boolean } = {}) {
-  const { forceAll = false, dryRun = false } = options;
+async function geocodeStores(options: { forceAll?: boolean; dryRun?: boolean; useCache?: boolean } = {}) {
+  const { forceAll = false, dryRun = false, useCache = true } = options;
+
+  const cache = createDatabaseGeocodeCache(sql);
+  const provider = useCache ? withGeocodeCache(getGeocodingProvider(), cache) : getGeocodingProvider();
 
   console.log('🗺️  Batch Geocoding Stores\n');
+  console.log(`Using geocoding provider: ${provider.name}${useCache ? ' (cached)' : ''}\n`);
 
   // Find stores that need geocoding
   const whereClause = forceAll
@@ -84,10 +93,12 @@ async function geocodeStores(options: { forceAll?: boolean; dryRun?: boolean } =
       };
 
       // Geocode the address
-      const result = await geocodeAddress(addressComponents);
+      const hitsBefore = cache.stats.hits;
+      const result = await geocodeAddress(addressComponents, provider);
+      const fromCache = cache.stats.hits > hitsBefore;
 
       console.log(`  📍 Geocoded: ${result.latitude}, ${result.longitude}`);
-      console.log(`  🌐 Location: ${result.display_name}`);
+      console.log(`  🌐 Location: ${result.display_name}${fromCache ? ' (cached)' : ''}`);
 
       if (!dryRun) {
         // Update the database with coordinates
@@ -107,10 +118,11 @@ async function geocodeStores(options: { forceAll?: boolean; dryRun?: boolean } =
 
       successCount++;
 
-      // Rate limiting: delay between requests (geocode.maps.co free tier)
-      // API allows 2 requests per second, so we wait 600ms
-      if (i < stores.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 600));
+      // Rate limiting: delay between requests as required by the provider
+      // (geocode.maps.co allows 2 requests per second, Nominatim 1 per second).
+      // Cache hits didn't touch the provider, so no delay is needed.
+      if (i < stores.length - 1 && provider.rateLimitMs > 0 && !fromCache) {
+        await new Promise(resolve => setTimeout(resolve, provider.rateLimitMs));
       }
     } catch (error) {
       console.log(`  ❌ Failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -126,6 +138,10 @@ async function geocodeStores(options: { forceAll?: boolean; dryRun?: boolean } =
   console.log(`   Total stores: ${stores.length}`);
   console.log(`   ✅ Successful: ${successCount}`);
   console.log(`   ❌ Failed: ${failCount}`);
+  if (useCache) {
+    console.log(`   💾 Cache hits: ${cache.stats.hits}`);
+    console.log(`   🌐 Cache misses: ${cache.stats.misses}`);
+  }
   if (dryRun) {
     console.log('\n   🔍 DRY RUN - No changes were made');
   }
@@ -136,9 +152,10 @@ async function geocodeStores(options: { forceAll?: boolean; dryRun?: boolean } =
 const args = process.argv.slice(2);
 const forceAll = args.includes('--all') || args.includes('-a');
 const dryRun = args.includes('--dry-run') || args.includes('-d');
+const useCache = !args.includes('--no-cache');
 
 // Run the script
-geocodeStores({ forceAll, dryRun })
+geocodeStores({ forceAll, dryRun, useCache })
   .then(() => {
     console.log('\n✨ Done!');
     process.exit(0);
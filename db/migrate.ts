@@ -1,18 +1,239 @@
 /**
  * Database migration runner
  *
- * Usage: npx tsx db/migrate.ts
+ * Applies every pending `NNN_name.sql` file in db/migrations, in version order.
+ * Applied versions and their checksums are recorded in `schema_migrations`;
+ * each migration runs in its own transaction together with its bookkeeping row.
+ *
+ * Usage:
+ *   npm run migrate                       # Apply pending migrations
+ *   npm run migrate -- --dry-run          # List what would be applied
+ *   npm run migrate -- status             # Show applied / pending / changed migrations
+ *   npm run migrate -- baseline 002       # Mark migrations up to 002 as applied without running them
+ *                                         # (for databases that were set up before this runner)
  */
 
 import { config } from 'dotenv';
-import { Pool, neon } from '@neondatabase/serverless';
-import { readFileSync } from 'fs';
+import { Pool } from '@neondatabase/serverless';
+import { createHash } from 'crypto';
+import { readdirSync, readFileSync } from 'fs';
 import { join } from 'path';
 
 // Load environment variables from .env.local
 config({ path: '.env.local' });
 
-async function runMigration() {
+const MIGRATIONS_DIR = join(__dirname, 'migrations');
+const MIGRATION_FILE_PATTERN = /^(\d+)_(.+)\.sql$/;
+
+interface MigrationFile {
+  version: string;
+  name: string;
+  filename: string;
+  sql: string;
+  checksum: string;
+}
+
+interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+/**
+ * Read all migration files, sorted by numeric version
+ */
+function loadMigrationFiles(): MigrationFile[] {
+  const files = readdirSync(MIGRATIONS_DIR).filter((file) => MIGRATION_FILE_PATTERN.test(file));
+
+  const migrations = files.map((filename) => {
+    const [, version, name] = filename.match(MIGRATION_FILE_PATTERN)!;
+    const sql = readFileSync(join(MIGRATIONS_DIR, filename), 'utf-8');
+
+    return {
+      version,
+      name,
+      filename,
+      sql,
+      checksum: createHash('sha256').update(sql).digest('hex'),
+    };
+  });
+
+  migrations.sort((a, b) => parseInt(a.version) - parseInt(b.version));
+
+  // Two files with the same version would make the order ambiguous
+  for (let i = 1; i < migrations.length; i++) {
+    if (parseInt(migrations[i].version) === parseInt(migrations[i - 1].version)) {
+      throw new Error(
+        `Duplicate migration version ${migrations[i].version}: ${migrations[i - 1].filename} and ${migrations[i].filename}`
+      );
+    }
+  }
+
+  return migrations;
+}
+
+async function ensureMigrationsTable(pool: Pool) {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version VARCHAR(20) PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      checksum VARCHAR(64) NOT NULL,
+      applied_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+async function loadAppliedMigrations(pool: Pool): Promise<Map<string, AppliedMigration>> {
+  const result = await pool.query<AppliedMigration>(
+    'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version'
+  );
+
+  return new Map(result.rows.map((row) => [row.version, row]));
+}
+
+/**
+ * Applied migrations whose file has been edited (or removed) since it was applied
+ */
+function findChangedMigrations(files: MigrationFile[], applied: Map<string, AppliedMigration>) {
+  const filesByVersion = new Map(files.map((file) => [file.version, file]));
+  const problems: string[] = [];
+
+  for (const migration of applied.values()) {
+    const file = filesByVersion.get(migration.version);
+
+    if (!file) {
+      problems.push(`${migration.version}_${migration.name}.sql was applied but the file is missing`);
+    } else if (file.checksum !== migration.checksum) {
+      problems.push(`${file.filename} has changed since it was applied`);
+    }
+  }
+
+  return problems;
+}
+
+async function showStatus(pool: Pool, files: MigrationFile[]) {
+  const applied = await loadAppliedMigrations(pool);
+
+  console.log('📋 Migration status:\n');
+
+  for (const file of files) {
+    const record = applied.get(file.version);
+
+    if (!record) {
+      console.log(`  ⏳ ${file.filename} (pending)`);
+    } else if (record.checksum !== file.checksum) {
+      console.log(`  ⚠️  ${file.filename} (CHANGED since applied ${new Date(record.applied_at).toISOString()})`);
+    } else {
+      console.log(`  ✅ ${file.filename} (applied ${new Date(record.applied_at).toISOString()})`);
+    }
+  }
+
+  const pendingCount = files.filter((file) => !applied.has(file.version)).length;
+  const problems = findChangedMigrations(files, applied);
+
+  console.log(`\n📊 ${applied.size} applied, ${pendingCount} pending`);
+
+  if (problems.length > 0) {
+    console.log('\n⚠️  Problems:');
+    problems.forEach((problem) => console.log(`  - ${problem}`));
+  }
+}
+
+async function baseline(pool: Pool, files: MigrationFile[], upToVersion: string) {
+  const applied = await loadAppliedMigrations(pool);
+  const target = parseInt(upToVersion);
+
+  if (isNaN(target)) {
+    throw new Error(`Invalid baseline version: ${upToVersion}`);
+  }
+
+  const toMark = files.filter((file) => parseInt(file.version) <= target && !applied.has(file.version));
+
+  if (toMark.length === 0) {
+    console.log('✅ Nothing to baseline');
+    return;
+  }
+
+  for (const file of toMark) {
+    await pool.query('INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)', [
+      file.version,
+      file.name,
+      file.checksum,
+    ]);
+    console.log(`  📌 Marked ${file.filename} as applied`);
+  }
+
+  console.log(`\n✅ Baselined ${toMark.length} migration(s)`);
+}
+
+async function migrate(pool: Pool, files: MigrationFile[], dryRun: boolean) {
+  const applied = await loadAppliedMigrations(pool);
+  const problems = findChangedMigrations(files, applied);
+
+  if (problems.length > 0) {
+    console.error('❌ Refusing to migrate, applied migrations do not match their files:');
+    problems.forEach((problem) => console.error(`  - ${problem}`));
+    throw new Error('Add a new migration instead of editing one that has already been applied');
+  }
+
+  const pending = files.filter((file) => !applied.has(file.version));
+
+  if (pending.length === 0) {
+    console.log('✅ Database is up to date');
+    return;
+  }
+
+  console.log(`Found ${pending.length} pending migration(s)\n`);
+
+  if (dryRun) {
+    console.log('🔍 DRY RUN MODE - No changes will be made\n');
+    pending.forEach((file) => console.log(`  ⏳ Would apply ${file.filename}`));
+    return;
+  }
+
+  for (const file of pending) {
+    console.log(`🚀 Applying ${file.filename}...`);
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(file.sql);
+      await client.query('INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)', [
+        file.version,
+        file.name,
+        file.checksum,
+      ]);
+      await client.query('COMMIT');
+      console.log(`  ✅ Applied ${file.filename}`);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw new Error(
+        `Migration ${file.filename} failed and was rolled back: ${error instanceof Error ? error.message : error}`
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  console.log(`\n✅ Applied ${pending.length} migration(s)`);
+
+  // Verify the tables that exist after migrating
+  const tables = await pool.query<{ table_name: string }>(`
+    SELECT table_name
+    FROM information_schema.tables
+    WHERE table_schema = 'public'
+    AND table_type = 'BASE TABLE'
+    ORDER BY table_name
+  `);
+
+  console.log('\n📋 Tables in database:');
+  tables.rows.forEach((table) => {
+    console.log(`  - ${table.table_name}`);
+  });
+}
+
+async function run() {
   const dbUrl = process.env.DATABASE_URL;
 
   if (!dbUrl) {
@@ -21,57 +242,44 @@ async function runMigration() {
     process.exit(1);
   }
 
+  const args = process.argv.slice(2);
+  const command = args.find((arg) => !arg.startsWith('-')) || 'up';
+  const dryRun = args.includes('--dry-run') || args.includes('-d');
+
+  const files = loadMigrationFiles();
+
   console.log('🔄 Connecting to Neon database...');
   const pool = new Pool({ connectionString: dbUrl });
-  const sql = neon(dbUrl);
 
   try {
-    // Read the migration SQL file
-    const migrationPath = join(__dirname, 'migrations', '001_initial_schema.sql');
-    console.log(`📄 Reading migration: ${migrationPath}`);
-    const migrationSql = readFileSync(migrationPath, 'utf-8');
-
-    // Execute the migration using Pool for raw SQL
-    console.log('🚀 Running migration...');
-    await pool.query(migrationSql);
-
-    console.log('✅ Migration completed successfully!');
-    console.log('\n📊 Database schema created:');
-    console.log('  - stores table (with PostGIS location support)');
-    console.log('  - energy_drinks table');
-    console.log('  - store_inventory table');
-    console.log('  - Sample data inserted');
-
-    // Verify the tables were created
-    console.log('\n🔍 Verifying tables...');
-    const tables = await sql`
-      SELECT table_name
-      FROM information_schema.tables
-      WHERE table_schema = 'public'
-      AND table_type = 'BASE TABLE'
-      ORDER BY table_name
-    `;
-
-    console.log('📋 Tables in database:');
-    tables.forEach((table: any) => {
-      console.log(`  - ${table.table_name}`);
-    });
-
-    // Check row counts
-    const storeCount = await sql`SELECT COUNT(*) as count FROM stores`;
-    const drinkCount = await sql`SELECT COUNT(*) as count FROM energy_drinks`;
-    const inventoryCount = await sql`SELECT COUNT(*) as count FROM store_inventory`;
-
-    console.log('\n📈 Data inserted:');
-    console.log(`  - ${storeCount[0].count} stores`);
-    console.log(`  - ${drinkCount[0].count} energy drinks`);
-    console.log(`  - ${inventoryCount[0].count} inventory items`);
+    await ensureMigrationsTable(pool);
+
+    switch (command) {
+      case 'up':
+        await migrate(pool, files, dryRun);
+        break;
+      case 'status':
+        await showStatus(pool, files);
+        break;
+      case 'baseline': {
+        const version = args.filter((arg) => !arg.startsWith('-'))[1];
+        if (!version) {
+          throw new Error('Usage: npm run migrate -- baseline <version>');
+        }
+        await baseline(pool, files, version);
+        break;
+      }
+      default:
+        throw new Error(`Unknown command: ${command} (expected up, status or baseline)`);
+    }
 
+    await pool.end();
     process.exit(0);
   } catch (error) {
-    console.error('❌ Migration failed:', error);
+    console.error('❌ Migration failed:', error instanceof Error ? error.message : error);
+    await pool.end();
     process.exit(1);
   }
 }
 
-runMigration();
+run();
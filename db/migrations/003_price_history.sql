@@ -0,0 +1,43 @@
+-- Price history for store inventory
+-- Migration 003: Append-only log of every price / stock observation
+
+-- Every insert or update of store_inventory records a row here, so the
+-- current price in store_inventory no longer overwrites earlier observations
+CREATE TABLE IF NOT EXISTS price_history (
+    id SERIAL PRIMARY KEY,
+    store_id INTEGER NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+    drink_id INTEGER NOT NULL REFERENCES energy_drinks(id) ON DELETE CASCADE,
+    price DECIMAL(6, 2) NOT NULL,
+    in_stock BOOLEAN DEFAULT true,
+    observed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Timeline lookups are by (store, drink) or by drink across all stores
+CREATE INDEX IF NOT EXISTS idx_price_history_store_drink ON price_history (store_id, drink_id, observed_at);
+CREATE INDEX IF NOT EXISTS idx_price_history_drink ON price_history (drink_id, observed_at);
+
+-- Trigger to log inventory writes into price_history
+CREATE OR REPLACE FUNCTION record_price_history()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO price_history (store_id, drink_id, price, in_stock, observed_at)
+    VALUES (NEW.store_id, NEW.drink_id, NEW.price, NEW.in_stock, COALESCE(NEW.last_updated, CURRENT_TIMESTAMP));
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS inventory_price_history_trigger ON store_inventory;
+CREATE TRIGGER inventory_price_history_trigger
+    AFTER INSERT OR UPDATE ON store_inventory
+    FOR EACH ROW
+    EXECUTE FUNCTION record_price_history();
+
+-- Seed the history with the current inventory so existing prices have a starting point
+INSERT INTO price_history (store_id, drink_id, price, in_stock, observed_at)
+SELECT store_id, drink_id, price, in_stock, COALESCE(last_updated, CURRENT_TIMESTAMP)
+FROM store_inventory
+WHERE NOT EXISTS (
+    SELECT 1 FROM price_history ph
+    WHERE ph.store_id = store_inventory.store_id
+    AND ph.drink_id = store_inventory.drink_id
+);
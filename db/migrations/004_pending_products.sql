@@ -0,0 +1,19 @@
+-- Pending products queue
+-- Migration 004: Keep barcodes that were scanned but not found in energy_drinks
+
+-- One row per unknown barcode; repeated scans bump scan_count and last_seen_at.
+-- Rows are resolved when the drink is created or dismissed by an admin.
+CREATE TABLE IF NOT EXISTS pending_products (
+    id SERIAL PRIMARY KEY,
+    barcode VARCHAR(20) NOT NULL UNIQUE,
+    store_id INTEGER REFERENCES stores(id) ON DELETE SET NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending | created | dismissed
+    drink_id INTEGER REFERENCES energy_drinks(id) ON DELETE SET NULL,
+    scan_count INTEGER NOT NULL DEFAULT 1,
+    first_seen_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    resolved_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Admin review lists pending rows, most recently seen first
+CREATE INDEX IF NOT EXISTS idx_pending_products_status ON pending_products (status, last_seen_at);
@@ -0,0 +1,83 @@
+-- Normalize barcodes to GTIN-14
+-- Migration 005: Store every barcode as a zero-padded, check-digit-valid GTIN-14
+-- (see src/lib/barcode.ts, which applies the same rules in the API)
+
+-- GS1 check digit validation for an all-digit GTIN-8/12/13/14 string
+CREATE OR REPLACE FUNCTION is_valid_gtin(code TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+    total INTEGER := 0;
+    len INTEGER;
+    i INTEGER;
+BEGIN
+    IF code IS NULL OR code !~ '^\d+$' THEN
+        RETURN false;
+    END IF;
+
+    len := length(code);
+    IF len NOT IN (8, 12, 13, 14) THEN
+        RETURN false;
+    END IF;
+
+    -- Weight 3, 1, 3, ... from the digit left of the check digit
+    FOR i IN 1..len - 1 LOOP
+        total := total + substr(code, len - i, 1)::INTEGER * CASE WHEN i % 2 = 1 THEN 3 ELSE 1 END;
+    END LOOP;
+
+    RETURN (10 - total % 10) % 10 = substr(code, len, 1)::INTEGER;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Fix sample barcodes from migration 002 that had wrong check digits
+UPDATE energy_drinks SET barcode = '819005020308' WHERE barcode = '819005020306';
+UPDATE energy_drinks SET barcode = '819005020209' WHERE barcode = '819005020207';
+UPDATE energy_drinks SET barcode = '084879518804' WHERE barcode = '084879518801';
+
+-- Strip formatting characters before validating
+UPDATE energy_drinks SET barcode = regexp_replace(barcode, '[\s-]', '', 'g')
+WHERE barcode ~ '[\s-]';
+
+UPDATE pending_products SET barcode = regexp_replace(barcode, '[\s-]', '', 'g')
+WHERE barcode ~ '[\s-]';
+
+-- Barcodes that can never match a scan are cleared rather than kept in an unmatchable form
+UPDATE energy_drinks SET barcode = NULL
+WHERE barcode IS NOT NULL AND NOT is_valid_gtin(barcode);
+
+DELETE FROM pending_products WHERE NOT is_valid_gtin(barcode);
+
+-- Pad to GTIN-14. If the same product was stored twice (e.g. as UPC-A and EAN-13),
+-- keep the barcode on the oldest row.
+UPDATE energy_drinks SET barcode = NULL
+WHERE id IN (
+    SELECT id FROM (
+        SELECT id, ROW_NUMBER() OVER (PARTITION BY LPAD(barcode, 14, '0') ORDER BY id) AS rn
+        FROM energy_drinks
+        WHERE barcode IS NOT NULL
+    ) ranked
+    WHERE rn > 1
+);
+
+UPDATE energy_drinks SET barcode = LPAD(barcode, 14, '0')
+WHERE barcode IS NOT NULL AND length(barcode) < 14;
+
+DELETE FROM pending_products
+WHERE id IN (
+    SELECT id FROM (
+        SELECT id, ROW_NUMBER() OVER (PARTITION BY LPAD(barcode, 14, '0') ORDER BY id) AS rn
+        FROM pending_products
+    ) ranked
+    WHERE rn > 1
+);
+
+UPDATE pending_products SET barcode = LPAD(barcode, 14, '0')
+WHERE length(barcode) < 14;
+
+-- Enforce the normalized form from now on
+ALTER TABLE energy_drinks DROP CONSTRAINT IF EXISTS energy_drinks_barcode_gtin14;
+ALTER TABLE energy_drinks ADD CONSTRAINT energy_drinks_barcode_gtin14
+    CHECK (barcode IS NULL OR (barcode ~ '^\d{14}$' AND is_valid_gtin(barcode)));
+
+ALTER TABLE pending_products DROP CONSTRAINT IF EXISTS pending_products_barcode_gtin14;
+ALTER TABLE pending_products ADD CONSTRAINT pending_products_barcode_gtin14
+    CHECK (barcode ~ '^\d{14}$' AND is_valid_gtin(barcode));
@@ -0,0 +1,20 @@
+-- Geocode result cache
+-- Migration 006: Persist geocoding results keyed by normalized address
+
+-- found = false marks a negative result ("no results" from the provider),
+-- which is cached too so unresolvable addresses aren't re-queried on every run
+CREATE TABLE IF NOT EXISTS geocode_cache (
+    query_key VARCHAR(500) PRIMARY KEY, -- normalized address string
+    query VARCHAR(500) NOT NULL, -- address as last queried
+    found BOOLEAN NOT NULL DEFAULT true,
+    latitude DECIMAL(10, 8),
+    longitude DECIMAL(11, 8),
+    display_name TEXT,
+    boundingbox JSONB, -- [min_lat, max_lat, min_lon, max_lon]
+    provider VARCHAR(50) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Index for purging expired entries
+CREATE INDEX IF NOT EXISTS idx_geocode_cache_expires ON geocode_cache (expires_at);
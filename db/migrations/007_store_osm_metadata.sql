@@ -0,0 +1,17 @@
+-- OpenStreetMap metadata for stores
+-- Migration 007: Link stores to the OSM element they were imported from
+
+-- osm_type/osm_id identify the node, way or relation so re-running discovery
+-- refreshes the same store instead of inserting a duplicate
+ALTER TABLE stores ADD COLUMN IF NOT EXISTS osm_type VARCHAR(10);
+ALTER TABLE stores ADD COLUMN IF NOT EXISTS osm_id BIGINT;
+ALTER TABLE stores ADD COLUMN IF NOT EXISTS website VARCHAR(500);
+ALTER TABLE stores ADD COLUMN IF NOT EXISTS operator VARCHAR(255);
+
+ALTER TABLE stores DROP CONSTRAINT IF EXISTS stores_osm_type_check;
+ALTER TABLE stores ADD CONSTRAINT stores_osm_type_check
+    CHECK (osm_type IS NULL OR osm_type IN ('node', 'way', 'relation'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stores_osm_element
+    ON stores (osm_type, osm_id)
+    WHERE osm_id IS NOT NULL;
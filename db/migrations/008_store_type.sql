@@ -0,0 +1,11 @@
+-- Store types
+-- Migration 008: Classify stores by the kind of place they are
+
+-- Everything imported so far came from amenity=fuel, so existing rows default to 'fuel'
+ALTER TABLE stores ADD COLUMN IF NOT EXISTS store_type VARCHAR(20) NOT NULL DEFAULT 'fuel';
+
+ALTER TABLE stores DROP CONSTRAINT IF EXISTS stores_store_type_check;
+ALTER TABLE stores ADD CONSTRAINT stores_store_type_check
+    CHECK (store_type IN ('fuel', 'convenience', 'supermarket', 'kiosk', 'pharmacy', 'vending'));
+
+CREATE INDEX IF NOT EXISTS idx_stores_store_type ON stores (store_type);
@@ -0,0 +1,6 @@
+-- Trigram similarity
+-- Migration 009: Enable pg_trgm for fuzzy name matching
+
+-- Store discovery uses similarity() to recognize a station that is already in
+-- the database under a slightly different name (e.g. "Shell" vs "Shell Gas")
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
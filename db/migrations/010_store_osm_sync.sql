@@ -0,0 +1,11 @@
+-- OpenStreetMap area sync bookkeeping
+-- Migration 010: Track when stores were last seen in OSM and flag ones that disappeared
+
+-- last_seen_in_osm_at is set whenever discovery or db/sync-stores.ts finds the store's element;
+-- possibly_closed_at is set by the sync when the element is gone and cleared if it comes back
+ALTER TABLE stores ADD COLUMN IF NOT EXISTS last_seen_in_osm_at TIMESTAMPTZ;
+ALTER TABLE stores ADD COLUMN IF NOT EXISTS possibly_closed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_stores_possibly_closed
+    ON stores (possibly_closed_at)
+    WHERE possibly_closed_at IS NOT NULL;
@@ -0,0 +1,23 @@
+-- Inventory evidence
+-- Migration 011: Count the reports behind each inventory entry for confidence scoring
+
+-- Reports are the price_history rows for the same store and drink from 30 days before
+-- the entry's latest report onwards. Several scans on one day count once, since they are
+-- most likely the same person in the same aisle. A report agrees with the entry when it
+-- has the same in_stock value, and conflicts with it otherwise.
+CREATE OR REPLACE VIEW inventory_evidence AS
+SELECT
+    i.id AS inventory_id,
+    i.store_id,
+    i.drink_id,
+    (COUNT(DISTINCT date_trunc('day', ph.observed_at))
+        FILTER (WHERE COALESCE(ph.in_stock, true) = COALESCE(i.in_stock, true)))::int AS confirmations,
+    (COUNT(DISTINCT date_trunc('day', ph.observed_at))
+        FILTER (WHERE COALESCE(ph.in_stock, true) <> COALESCE(i.in_stock, true)))::int AS conflicts
+FROM store_inventory i
+LEFT JOIN price_history ph
+    ON ph.store_id = i.store_id
+    AND ph.drink_id = i.drink_id
+    AND ph.observed_at >= COALESCE(i.last_updated, CURRENT_TIMESTAMP) - INTERVAL '30 days'
+-- Grouping by store and drink too lets filters on them reach the base tables
+GROUP BY i.id, i.store_id, i.drink_id;
@@ -0,0 +1,57 @@
+-- Drink aliases
+-- Migration 012: Managed brand and flavor synonyms for matching drink names
+
+-- People (and our own seed data) call the same product different things:
+-- "Monster Energy" is the brand Monster, "Green" is Monster's Original.
+-- Flavor aliases can be limited to one brand; brand is the canonical brand name.
+CREATE TABLE IF NOT EXISTS drink_aliases (
+    id SERIAL PRIMARY KEY,
+    kind VARCHAR(10) NOT NULL CHECK (kind IN ('brand', 'flavor')),
+    alias VARCHAR(100) NOT NULL,
+    canonical VARCHAR(100) NOT NULL,
+    brand VARCHAR(100),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK (kind = 'flavor' OR brand IS NULL)
+);
+
+-- An alias means one thing per kind (and brand, for flavors), regardless of case
+CREATE UNIQUE INDEX IF NOT EXISTS idx_drink_aliases_alias
+    ON drink_aliases (kind, LOWER(alias), LOWER(COALESCE(brand, '')));
+
+-- Every name a drink goes by: its own brand and flavor combined with their aliases
+CREATE OR REPLACE VIEW drink_names AS
+SELECT
+    d.id AS drink_id,
+    b.name AS brand,
+    f.name AS flavor,
+    (b.is_alias OR f.is_alias) AS is_alias
+FROM energy_drinks d
+CROSS JOIN LATERAL (
+    SELECT d.brand AS name, false AS is_alias
+    UNION ALL
+    SELECT a.alias, true
+    FROM drink_aliases a
+    WHERE a.kind = 'brand' AND LOWER(a.canonical) = LOWER(d.brand)
+) b
+CROSS JOIN LATERAL (
+    SELECT d.flavor AS name, false AS is_alias
+    UNION ALL
+    SELECT a.alias, true
+    FROM drink_aliases a
+    WHERE a.kind = 'flavor'
+    AND LOWER(a.canonical) = LOWER(d.flavor)
+    AND (a.brand IS NULL OR LOWER(a.brand) = LOWER(d.brand))
+) f;
+
+-- Common synonyms, including the names prisma/seed.ts used to create
+INSERT INTO drink_aliases (kind, alias, canonical, brand) VALUES
+    ('brand', 'Monster Energy', 'Monster', NULL),
+    ('brand', 'Bang Energy', 'Bang', NULL),
+    ('brand', 'Rockstar Energy', 'Rockstar', NULL),
+    ('brand', 'Reign Total Body Fuel', 'Reign', NULL),
+    ('brand', 'Celsius Energy', 'Celsius', NULL),
+    ('flavor', 'Original (Green)', 'Original', 'Monster'),
+    ('flavor', 'Green', 'Original', 'Monster'),
+    ('flavor', 'Zero Ultra', 'Ultra White', 'Monster'),
+    ('flavor', 'Classic', 'Original', NULL)
+ON CONFLICT DO NOTHING;
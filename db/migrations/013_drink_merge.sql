@@ -0,0 +1,21 @@
+-- Drink merging
+-- Migration 013: Don't log inventory rows that only moved to another drink
+
+-- Merging duplicate drinks (src/lib/drink-merge.ts) re-points store_inventory rows
+-- from one drink to the other along with their price_history. Logging those
+-- updates again would add an observation nobody made.
+CREATE OR REPLACE FUNCTION record_price_history()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE'
+        AND NEW.price IS NOT DISTINCT FROM OLD.price
+        AND NEW.in_stock IS NOT DISTINCT FROM OLD.in_stock
+        AND NEW.last_updated IS NOT DISTINCT FROM OLD.last_updated THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO price_history (store_id, drink_id, price, in_stock, observed_at)
+    VALUES (NEW.store_id, NEW.drink_id, NEW.price, NEW.in_stock, COALESCE(NEW.last_updated, CURRENT_TIMESTAMP));
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
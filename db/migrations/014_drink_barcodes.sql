@@ -0,0 +1,51 @@
+-- Drink barcodes
+-- Migration 014: Let a drink have several barcodes, one per packaging
+
+-- One product is sold under several GTINs: the single can, a 4-pack, a case,
+-- promo or regional printings. energy_drinks.barcode stays as the drink's main
+-- code and is always one of its rows here.
+CREATE TABLE IF NOT EXISTS drink_barcodes (
+    id SERIAL PRIMARY KEY,
+    drink_id INTEGER NOT NULL REFERENCES energy_drinks(id) ON DELETE CASCADE,
+    barcode VARCHAR(20) NOT NULL UNIQUE,
+    packaging VARCHAR(20) NOT NULL DEFAULT 'single'
+        CHECK (packaging IN ('single', 'multipack', 'case', 'promo', 'regional')),
+    pack_count INTEGER NOT NULL DEFAULT 1 CHECK (pack_count >= 1),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_drink_barcodes_drink ON drink_barcodes (drink_id);
+
+-- Keep the main barcode in the list when a drink is created or its barcode changes.
+-- A code that already belongs to another drink is rejected like a unique violation.
+CREATE OR REPLACE FUNCTION sync_main_barcode()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.barcode IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM drink_barcodes WHERE barcode = NEW.barcode AND drink_id <> NEW.id) THEN
+        RAISE EXCEPTION 'Barcode % already belongs to another drink', NEW.barcode
+            USING ERRCODE = 'unique_violation';
+    END IF;
+
+    INSERT INTO drink_barcodes (drink_id, barcode)
+    VALUES (NEW.id, NEW.barcode)
+    ON CONFLICT (barcode) DO NOTHING;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS energy_drinks_barcode_trigger ON energy_drinks;
+CREATE TRIGGER energy_drinks_barcode_trigger
+    AFTER INSERT OR UPDATE OF barcode ON energy_drinks
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_main_barcode();
+
+-- Start every drink's list with its current barcode
+INSERT INTO drink_barcodes (drink_id, barcode)
+SELECT id, barcode
+FROM energy_drinks
+WHERE barcode IS NOT NULL
+ON CONFLICT (barcode) DO NOTHING;
@@ -0,0 +1,27 @@
+-- Drink nutrition
+-- Migration 015: Structured ingredient fields for energy drinks
+
+-- Amounts are per can, like caffeine_mg and sugar_g. NULL means unknown.
+ALTER TABLE energy_drinks ADD COLUMN IF NOT EXISTS taurine_mg INTEGER;
+ALTER TABLE energy_drinks ADD COLUMN IF NOT EXISTS vitamin_b3_mg DECIMAL(6, 2);
+ALTER TABLE energy_drinks ADD COLUMN IF NOT EXISTS vitamin_b5_mg DECIMAL(6, 2);
+ALTER TABLE energy_drinks ADD COLUMN IF NOT EXISTS vitamin_b6_mg DECIMAL(6, 2);
+ALTER TABLE energy_drinks ADD COLUMN IF NOT EXISTS vitamin_b12_mcg DECIMAL(6, 2);
+ALTER TABLE energy_drinks ADD COLUMN IF NOT EXISTS sweetener_type VARCHAR(20);
+ALTER TABLE energy_drinks ADD COLUMN IF NOT EXISTS carbonated BOOLEAN;
+ALTER TABLE energy_drinks ADD COLUMN IF NOT EXISTS caffeine_source VARCHAR(20);
+
+ALTER TABLE energy_drinks DROP CONSTRAINT IF EXISTS energy_drinks_nutrition_check;
+ALTER TABLE energy_drinks ADD CONSTRAINT energy_drinks_nutrition_check
+    CHECK (
+        caffeine_mg >= 0 AND sugar_g >= 0 AND calories >= 0 AND taurine_mg >= 0
+        AND vitamin_b3_mg >= 0 AND vitamin_b5_mg >= 0 AND vitamin_b6_mg >= 0 AND vitamin_b12_mcg >= 0
+    );
+
+ALTER TABLE energy_drinks DROP CONSTRAINT IF EXISTS energy_drinks_sweetener_type_check;
+ALTER TABLE energy_drinks ADD CONSTRAINT energy_drinks_sweetener_type_check
+    CHECK (sweetener_type IN ('sugar', 'artificial', 'natural', 'mixed', 'unsweetened'));
+
+ALTER TABLE energy_drinks DROP CONSTRAINT IF EXISTS energy_drinks_caffeine_source_check;
+ALTER TABLE energy_drinks ADD CONSTRAINT energy_drinks_caffeine_source_check
+    CHECK (caffeine_source IN ('synthetic', 'coffee', 'tea', 'guarana', 'yerba_mate', 'mixed'));
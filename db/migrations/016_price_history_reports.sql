@@ -0,0 +1,7 @@
+-- Stock reports without a price
+-- Migration 016: Let price_history hold reports for drinks a store doesn't list
+
+-- A stock report for a drink with no store_inventory row has no price to log.
+-- Such reports are kept with a NULL price instead of creating a $0.00 inventory
+-- row that would rank as the cheapest offer; price displays skip them.
+ALTER TABLE price_history ALTER COLUMN price DROP NOT NULL;
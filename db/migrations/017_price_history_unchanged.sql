@@ -0,0 +1,31 @@
+-- Unchanged inventory observations
+-- Migration 017: Only log inventory updates that change something
+
+-- Every rescan of a drink updates last_updated, which used to add a price_history
+-- row even when nothing changed. An update with the same price and stock status
+-- is now only logged when it's the first one that day: inventory_evidence
+-- (migration 011) counts confirmations per day, so more rows add nothing.
+-- Updates that only move a row to another drink (migration 013) are skipped as before.
+CREATE OR REPLACE FUNCTION record_price_history()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE'
+        AND NEW.price IS NOT DISTINCT FROM OLD.price
+        AND NEW.in_stock IS NOT DISTINCT FROM OLD.in_stock
+        AND (
+            NEW.last_updated IS NOT DISTINCT FROM OLD.last_updated
+            OR EXISTS (
+                SELECT 1 FROM price_history ph
+                WHERE ph.store_id = NEW.store_id
+                AND ph.drink_id = NEW.drink_id
+                AND date_trunc('day', ph.observed_at) = date_trunc('day', COALESCE(NEW.last_updated, CURRENT_TIMESTAMP))
+            )
+        ) THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO price_history (store_id, drink_id, price, in_stock, observed_at)
+    VALUES (NEW.store_id, NEW.drink_id, NEW.price, NEW.in_stock, COALESCE(NEW.last_updated, CURRENT_TIMESTAMP));
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
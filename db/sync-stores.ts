@@ -0,0 +1,557 @@
+#!/usr/bin/env tsx
+
+/**
+ * Sync stores with OpenStreetMap for saved regions
+ *
+ * This script:
+ * 1. Loads regions from db/sync-regions.json (bounding boxes or city names)
+ * 2. Splits each region into tiles and queries the Overpass API one tile at a time
+ * 3. Imports new stores and refreshes existing ones, matched the same way as
+ *    POST /api/stores/discover (see src/lib/store-matching.ts)
+ * 4. Flags stores linked to an OSM element that no longer shows up in their
+ *    region as possibly closed (stores.possibly_closed_at)
+ *
+ * Meant to run on a schedule, e.g. weekly from cron:
+ *   0 4 * * 1  cd /path/to/app && npm run sync-stores
+ *
+ * Regions file:
+ *   {
+ *     "regions": [
+ *       { "name": "pensacola", "city": "Pensacola, FL" },
+ *       { "name": "downtown", "city": "Austin, TX", "radius_km": 5 },
+ *       { "name": "midtown", "bbox": [40.745, -73.995, 40.765, -73.965], "categories": ["fuel", "kiosk"] }
+ *     ]
+ *   }
+ * bbox is [south, west, north, east]. City names are geocoded with the configured
+ * provider (GEOCODING_PROVIDER) and synced over the city's bounding box, or a
+ * square of radius_km around it. categories defaults to every store type.
+ *
+ * Usage:
+ *   npm run sync-stores                                   # Sync all saved regions
+ *   npm run sync-stores -- --region pensacola             # Sync saved regions by name
+ *   npm run sync-stores -- --bbox 30.38,-87.25,30.48,-87.15   # Sync a bounding box (south,west,north,east)
+ *   npm run sync-stores -- --city "Pensacola, FL"         # Sync a city
+ *   npm run sync-stores -- --categories fuel,convenience  # Only these store types
+ *   npm run sync-stores -- --tile-size 5                  # Tile edge in km (default: 5)
+ *   npm run sync-stores -- --regions path/to/regions.json # Use another regions file
+ *   npm run sync-stores -- --dry-run                      # Preview changes without updating
+ */
+
+import 'dotenv/config';
+import { neon } from '@neondatabase/serverless';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { geocodeAddress, getGeocodingProvider, type GeocodingProvider } from '../src/lib/geocode';
+import { createDatabaseGeocodeCache, withGeocodeCache } from '../src/lib/geocoding';
+import { findStoresInBounds, type DiscoveredStore } from '../src/lib/overpass';
+import { fillMissingAddress, hasMissingAddress, insertStore, refreshStore } from '../src/lib/store-import';
+import { findMatchingStore } from '../src/lib/store-matching';
+import { parseStoreTypes, STORE_TYPES } from '../src/lib/store-types';
+import type { BoundingBox, StoreType } from '../src/types';
+
+const sql = neon(process.env.DATABASE_URL!);
+
+const DEFAULT_REGIONS_PATH = join(__dirname, 'sync-regions.json');
+const DEFAULT_TILE_SIZE_KM = 5;
+const DEFAULT_CITY_RADIUS_KM = 10;
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+// A region bigger than this many tiles is almost certainly a typo (e.g. a whole state)
+const MAX_TILES_PER_REGION = 400;
+
+// Overpass asks for no more than about one request per second from a client;
+// failed requests (usually 429 Too Many Requests or 504 timeouts) are retried with a longer wait
+const OVERPASS_DELAY_MS = 1000;
+const OVERPASS_RETRY_DELAY_MS = 10000;
+const OVERPASS_MAX_ATTEMPTS = 3;
+
+interface RegionConfig {
+  name: string;
+  bbox?: [number, number, number, number];
+  city?: string;
+  radius_km?: number;
+  categories?: string[];
+}
+
+interface Region {
+  name: string;
+  bounds: BoundingBox;
+  storeTypes: readonly StoreType[];
+}
+
+interface SyncStats {
+  regions: number;
+  tiles: number;
+  failedTiles: number;
+  found: number;
+  added: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+  geocoded: number;
+  flagged: number;
+  failed: number;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function formatBounds({ south, west, north, east }: BoundingBox): string {
+  return `${south},${west} → ${north},${east}`;
+}
+
+/**
+ * Square of radiusKm around a point
+ */
+function boundsAround(latitude: number, longitude: number, radiusKm: number): BoundingBox {
+  const latDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+  const lonDelta = radiusKm / (KM_PER_DEGREE_LATITUDE * Math.cos((latitude * Math.PI) / 180));
+
+  return {
+    south: latitude - latDelta,
+    west: longitude - lonDelta,
+    north: latitude + latDelta,
+    east: longitude + lonDelta,
+  };
+}
+
+function parseBbox(value: unknown): BoundingBox | null {
+  const parts = typeof value === 'string' ? value.split(',').map(Number) : value;
+
+  if (!Array.isArray(parts) || parts.length !== 4 || parts.some((part) => typeof part !== 'number' || isNaN(part))) {
+    return null;
+  }
+
+  const [south, west, north, east] = parts as number[];
+
+  if (south >= north || west >= east || Math.abs(south) > 90 || Math.abs(north) > 90 || Math.abs(west) > 180 || Math.abs(east) > 180) {
+    return null;
+  }
+
+  return { south, west, north, east };
+}
+
+/**
+ * Split a region into tiles of about tileSizeKm on each side
+ * Edges are rounded once and shared, so neighbouring tiles line up exactly.
+ */
+function tileBounds(bounds: BoundingBox, tileSizeKm: number): BoundingBox[] {
+  const midLatitude = (bounds.south + bounds.north) / 2;
+  const latStep = tileSizeKm / KM_PER_DEGREE_LATITUDE;
+  const lonStep = tileSizeKm / (KM_PER_DEGREE_LATITUDE * Math.cos((midLatitude * Math.PI) / 180));
+
+  const edges = (from: number, to: number, step: number) => {
+    const count = Math.max(1, Math.ceil((to - from) / step));
+    return Array.from({ length: count + 1 }, (_, i) => Number((from + ((to - from) * i) / count).toFixed(6)));
+  };
+
+  const latEdges = edges(bounds.south, bounds.north, latStep);
+  const lonEdges = edges(bounds.west, bounds.east, lonStep);
+  const tiles: BoundingBox[] = [];
+
+  for (let i = 0; i < latEdges.length - 1; i++) {
+    for (let j = 0; j < lonEdges.length - 1; j++) {
+      tiles.push({ south: latEdges[i], west: lonEdges[j], north: latEdges[i + 1], east: lonEdges[j + 1] });
+    }
+  }
+
+  return tiles;
+}
+
+/**
+ * Load region definitions from the regions file
+ */
+function loadRegionConfigs(path: string): RegionConfig[] {
+  const data = JSON.parse(readFileSync(path, 'utf-8'));
+
+  if (!Array.isArray(data?.regions)) {
+    throw new Error(`${path} must contain a "regions" array`);
+  }
+
+  return data.regions;
+}
+
+/**
+ * Turn a region definition into a bounding box, geocoding city names
+ */
+async function resolveRegion(
+  config: RegionConfig,
+  getProvider: () => GeocodingProvider,
+  defaultStoreTypes: readonly StoreType[]
+): Promise<Region> {
+  if (!config.name) {
+    throw new Error('Every region needs a name');
+  }
+
+  let storeTypes = defaultStoreTypes;
+
+  if (config.categories !== undefined) {
+    const parsed = parseStoreTypes(config.categories);
+    if (!parsed.valid) {
+      throw new Error(`Region ${config.name}: ${parsed.error}`);
+    }
+    storeTypes = parsed.types;
+  }
+
+  if (config.bbox) {
+    const bounds = parseBbox(config.bbox);
+    if (!bounds) {
+      throw new Error(`Region ${config.name}: bbox must be [south, west, north, east] in degrees`);
+    }
+    return { name: config.name, bounds, storeTypes };
+  }
+
+  if (!config.city) {
+    throw new Error(`Region ${config.name} needs either a bbox or a city`);
+  }
+
+  const result = await geocodeAddress(config.city, getProvider());
+
+  if (config.radius_km === undefined && result.boundingbox) {
+    const [south, north, west, east] = result.boundingbox.map(Number);
+    return { name: config.name, bounds: { south, west, north, east }, storeTypes };
+  }
+
+  return {
+    name: config.name,
+    bounds: boundsAround(result.latitude, result.longitude, config.radius_km ?? DEFAULT_CITY_RADIUS_KM),
+    storeTypes,
+  };
+}
+
+/**
+ * Query one tile, retrying with a growing delay when Overpass is busy
+ */
+async function queryTile(tile: BoundingBox, storeTypes: readonly StoreType[]): Promise<DiscoveredStore[]> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await findStoresInBounds(tile, storeTypes);
+    } catch (error) {
+      if (attempt >= OVERPASS_MAX_ATTEMPTS) throw error;
+
+      const delay = OVERPASS_RETRY_DELAY_MS * attempt;
+      console.log(`  ⏳ Overpass request failed, retrying in ${delay / 1000}s...`);
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Flag stores linked to OSM inside the region that this sync didn't see
+ * Stores already flagged keep their original timestamp.
+ */
+async function flagMissingStores(region: Region, seenStoreIds: number[], dryRun: boolean) {
+  const { south, west, north, east } = region.bounds;
+
+  const missing = await sql`
+    SELECT id, name, address, city, state, last_seen_in_osm_at
+    FROM stores
+    WHERE osm_id IS NOT NULL
+      AND possibly_closed_at IS NULL
+      AND store_type = ANY(${region.storeTypes as StoreType[]}::text[])
+      AND ST_Intersects(location::geometry, ST_MakeEnvelope(${west}, ${south}, ${east}, ${north}, 4326))
+      AND NOT (id = ANY(${seenStoreIds}::int[]))
+    ORDER BY id
+  `;
+
+  if (missing.length > 0 && !dryRun) {
+    await sql`
+      UPDATE stores
+      SET possibly_closed_at = CURRENT_TIMESTAMP
+      WHERE id = ANY(${missing.map((store) => store.id)}::int[])
+    `;
+  }
+
+  return missing;
+}
+
+async function syncRegion(
+  region: Region,
+  stats: SyncStats,
+  options: { tileSizeKm: number; dryRun: boolean; getProvider: () => GeocodingProvider }
+) {
+  const { tileSizeKm, dryRun, getProvider } = options;
+  const tiles = tileBounds(region.bounds, tileSizeKm);
+
+  console.log(`📦 Region: ${region.name}`);
+  console.log(`  Bounds: ${formatBounds(region.bounds)}`);
+  console.log(`  Store types: ${region.storeTypes.join(', ')}`);
+  console.log(`  Tiles: ${tiles.length} (${tileSizeKm} km)\n`);
+
+  if (tiles.length > MAX_TILES_PER_REGION) {
+    throw new Error(
+      `Region ${region.name} needs ${tiles.length} tiles (max ${MAX_TILES_PER_REGION}); split it up or use a larger --tile-size`
+    );
+  }
+
+  const processed = new Set<string>();
+  const seenStoreIds = new Set<number>();
+  let failedTiles = 0;
+  let reverseLookups = 0;
+
+  for (let i = 0; i < tiles.length; i++) {
+    const tile = tiles[i];
+
+    // Overpass rate limit between requests
+    if (i > 0) {
+      await sleep(OVERPASS_DELAY_MS);
+    }
+
+    let stores: DiscoveredStore[];
+
+    try {
+      stores = await queryTile(tile, region.storeTypes);
+    } catch (error) {
+      console.log(`[${i + 1}/${tiles.length}] ${formatBounds(tile)}`);
+      console.log(`  ❌ Tile failed: ${error instanceof Error ? error.message : 'Unknown error'}\n`);
+      failedTiles++;
+      continue;
+    }
+
+    // Ways crossing a tile edge come back from both tiles
+    const fresh = stores.filter((store) => !processed.has(`${store.osmType}/${store.osmId}`));
+    fresh.forEach((store) => processed.add(`${store.osmType}/${store.osmId}`));
+
+    console.log(`[${i + 1}/${tiles.length}] ${formatBounds(tile)}: ${fresh.length} store(s)`);
+    stats.found += fresh.length;
+
+    for (const discovered of fresh) {
+      let store = discovered;
+
+      try {
+        const match = await findMatchingStore(sql, store);
+
+        if (match && (match.match === 'osm_id' || match.osmId === null)) {
+          seenStoreIds.add(match.storeId);
+
+          if (dryRun) {
+            if (match.match === 'proximity') {
+              console.log(`  🔗 Would link #${match.storeId} ${match.name} to ${store.osmType}/${store.osmId}`);
+            }
+            stats.updated++;
+            continue;
+          }
+
+          if (await refreshStore(sql, match.storeId, store)) {
+            console.log(`  🔄 Updated #${match.storeId} ${store.name} (${match.match === 'osm_id' ? 'OSM id' : `${Math.round(match.distanceMeters)}m away`})`);
+            stats.updated++;
+          } else {
+            stats.unchanged++;
+          }
+          continue;
+        }
+
+        if (match) {
+          // Most likely the same place mapped twice in OSM (e.g. a node and a building way)
+          seenStoreIds.add(match.storeId);
+          console.log(`  ⏭️  Skipping ${store.name} (${store.osmType}/${store.osmId}): duplicate of #${match.storeId} ${match.name}`);
+          stats.skipped++;
+          continue;
+        }
+
+        if (dryRun) {
+          console.log(`  ➕ Would add ${store.name}, ${store.address}, ${store.city}${hasMissingAddress(store) ? ' (address to be reverse geocoded)' : ''}`);
+          stats.added++;
+          continue;
+        }
+
+        if (hasMissingAddress(store)) {
+          try {
+            const provider = getProvider();
+
+            // Respect the geocoding provider's rate limit between lookups
+            if (reverseLookups > 0 && provider.rateLimitMs > 0) {
+              await sleep(provider.rateLimitMs);
+            }
+            reverseLookups++;
+
+            store = await fillMissingAddress(store, provider);
+            stats.geocoded++;
+          } catch (error) {
+            console.log(`  ⚠️  Reverse geocoding failed for ${store.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          }
+        }
+
+        const storeId = await insertStore(sql, store);
+        seenStoreIds.add(storeId);
+        console.log(`  ➕ Added #${storeId} ${store.name}, ${store.address}, ${store.city}`);
+        stats.added++;
+      } catch (error) {
+        console.log(`  ❌ Failed to import ${store.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        stats.failed++;
+      }
+    }
+  }
+
+  stats.tiles += tiles.length;
+  stats.failedTiles += failedTiles;
+
+  // A failed tile would make every store in it look closed
+  if (failedTiles > 0) {
+    console.log(`\n  ⚠️  Skipping closed-store check for ${region.name}: ${failedTiles} tile(s) failed\n`);
+    return;
+  }
+
+  const missing = await flagMissingStores(region, [...seenStoreIds], dryRun);
+
+  if (missing.length > 0) {
+    console.log(`\n  🚩 ${dryRun ? 'Would flag' : 'Flagged'} ${missing.length} store(s) missing from OSM as possibly closed:`);
+    for (const store of missing) {
+      const lastSeen = store.last_seen_in_osm_at ? new Date(store.last_seen_in_osm_at).toISOString().slice(0, 10) : 'never';
+      console.log(`     #${store.id} ${store.name}, ${store.address}, ${store.city}, ${store.state} (last seen: ${lastSeen})`);
+    }
+  }
+
+  stats.flagged += missing.length;
+  console.log('');
+}
+
+async function syncStores(options: {
+  regionsPath: string;
+  regionNames: string[];
+  adHoc: RegionConfig[];
+  storeTypes: readonly StoreType[];
+  tileSizeKm: number;
+  dryRun: boolean;
+}) {
+  const { regionsPath, regionNames, adHoc, storeTypes, tileSizeKm, dryRun } = options;
+
+  // Set up on the first lookup, so regions given as a bbox with complete
+  // addresses sync without a geocoding provider configured
+  let provider: GeocodingProvider | null = null;
+  const getProvider = () => {
+    if (!provider) {
+      provider = withGeocodeCache(getGeocodingProvider(), createDatabaseGeocodeCache(sql));
+      console.log(`  Using geocoding provider: ${provider.name} (cached)`);
+    }
+    return provider;
+  };
+
+  console.log('🛰️  Syncing Stores with OpenStreetMap\n');
+
+  let configs = adHoc;
+
+  if (configs.length === 0) {
+    configs = loadRegionConfigs(regionsPath);
+
+    if (regionNames.length > 0) {
+      const unknown = regionNames.filter((name) => !configs.some((config) => config.name === name));
+      if (unknown.length > 0) {
+        throw new Error(`Unknown region(s) in ${regionsPath}: ${unknown.join(', ')}`);
+      }
+      configs = configs.filter((config) => regionNames.includes(config.name));
+    }
+  }
+
+  if (configs.length === 0) {
+    console.log('✅ No regions to sync!');
+    return;
+  }
+
+  console.log(`Found ${configs.length} region(s) to sync\n`);
+
+  if (dryRun) {
+    console.log('🔍 DRY RUN MODE - No changes will be made\n');
+  }
+
+  const stats: SyncStats = {
+    regions: 0,
+    tiles: 0,
+    failedTiles: 0,
+    found: 0,
+    added: 0,
+    updated: 0,
+    unchanged: 0,
+    skipped: 0,
+    geocoded: 0,
+    flagged: 0,
+    failed: 0,
+  };
+  let failedRegions = 0;
+
+  for (const config of configs) {
+    try {
+      const region = await resolveRegion(config, getProvider, storeTypes);
+      await syncRegion(region, stats, { tileSizeKm, dryRun, getProvider });
+      stats.regions++;
+    } catch (error) {
+      console.log(`❌ Region ${config.name || '(unnamed)'} failed: ${error instanceof Error ? error.message : 'Unknown error'}\n`);
+      failedRegions++;
+    }
+  }
+
+  // Summary
+  console.log('═'.repeat(60));
+  console.log('📊 Summary:');
+  console.log(`   Regions synced: ${stats.regions}${failedRegions > 0 ? ` (${failedRegions} failed)` : ''}`);
+  console.log(`   Tiles queried: ${stats.tiles}${stats.failedTiles > 0 ? ` (${stats.failedTiles} failed)` : ''}`);
+  console.log(`   Stores found in OSM: ${stats.found}`);
+  console.log(`   ➕ ${dryRun ? 'Would add' : 'Added'}: ${stats.added}`);
+  if (dryRun) {
+    console.log(`   🔄 Matched existing (would refresh): ${stats.updated}`);
+  } else {
+    console.log(`   🔄 Updated: ${stats.updated}`);
+    console.log(`   ✔️  Unchanged: ${stats.unchanged}`);
+    console.log(`   📍 Reverse geocoded: ${stats.geocoded}`);
+  }
+  console.log(`   ⏭️  Skipped (duplicates in OSM): ${stats.skipped}`);
+  console.log(`   🚩 ${dryRun ? 'Would flag' : 'Flagged'} possibly closed: ${stats.flagged}`);
+  console.log(`   ❌ Failed: ${stats.failed}`);
+  if (dryRun) {
+    console.log('\n   🔍 DRY RUN - No changes were made');
+  }
+  console.log('═'.repeat(60));
+}
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+
+/** Values of a repeatable option, given as "--name value" or "--name=value" */
+function optionValues(name: string): string[] {
+  return args.flatMap((arg, i) => {
+    if (arg === name && args[i + 1] !== undefined) return [args[i + 1]];
+    if (arg.startsWith(`${name}=`)) return [arg.slice(name.length + 1)];
+    return [];
+  });
+}
+
+const dryRun = args.includes('--dry-run') || args.includes('-d');
+const regionsPath = optionValues('--regions')[0] ?? DEFAULT_REGIONS_PATH;
+const regionNames = optionValues('--region').flatMap((value) => value.split(','));
+const tileSizeKm = Number(optionValues('--tile-size')[0] ?? DEFAULT_TILE_SIZE_KM);
+
+const adHoc: RegionConfig[] = [
+  ...optionValues('--bbox').map((bbox) => {
+    const bounds = parseBbox(bbox);
+    if (!bounds) {
+      console.error(`💥 Invalid --bbox "${bbox}", expected south,west,north,east`);
+      process.exit(1);
+    }
+    const { south, west, north, east } = bounds;
+    return { name: `bbox ${bbox}`, bbox: [south, west, north, east] as [number, number, number, number] };
+  }),
+  ...optionValues('--city').map((city) => ({ name: city, city })),
+];
+
+const categories = optionValues('--categories')[0];
+const parsedTypes = categories ? parseStoreTypes(categories) : { valid: true as const, types: STORE_TYPES };
+
+if (!parsedTypes.valid) {
+  console.error(`💥 ${parsedTypes.error}`);
+  process.exit(1);
+}
+
+if (isNaN(tileSizeKm) || tileSizeKm <= 0) {
+  console.error('💥 --tile-size must be a positive number of kilometers');
+  process.exit(1);
+}
+
+// Run the script
+syncStores({ regionsPath, regionNames, adHoc, storeTypes: parsedTypes.types, tileSizeKm, dryRun })
+  .then(() => {
+    console.log('\n✨ Done!');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n💥 Fatal error:', error);
+    process.exit(1);
+  });
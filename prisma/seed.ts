@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import { config } from 'dotenv';
+import { normalizeBarcode } from '../src/lib/barcode';
 
 // Load environment variables
 config({ path: '.env.local' });
@@ -23,7 +24,7 @@ async function main() {
     },
     {
       brand: 'Monster',
-      flavor: 'Original (Green)',
+      flavor: 'Original',
       size_ml: 473,
       caffeine_mg: 300,
       sugar_g: 54,
@@ -56,7 +57,7 @@ async function main() {
           },
         },
         update: {},
-        create: drink,
+        create: { ...drink, barcode: normalizeBarcode(drink.barcode) },
       });
       console.log(`✅ ${drink.brand} ${drink.flavor}`);
       created++;
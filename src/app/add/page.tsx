@@ -2,16 +2,18 @@
 
 import { useEffect, useRef, useState } from 'react';
 import { BrowserMultiFormatReader, NotFoundException } from '@zxing/library';
+import NewProductForm from '@/components/NewProductForm';
 import type { EnergyDrink, Store } from '@/types';
 
 interface NearbyStore extends Store {
-  distance_km: number;
+  /** null for a store opened from a link (?store_id=) that isn't in the nearby list */
+  distance_km: number | null;
 }
 
 interface ScannedItem {
   drink: EnergyDrink;
   timestamp: Date;
-  status: 'pending' | 'adding' | 'success' | 'error';
+  status: 'pending' | 'adding' | 'success' | 'error' | 'unknown';
   price?: number;
   errorMessage?: string;
 }
@@ -23,16 +25,20 @@ export default function AddPage() {
   const [userLocation, setUserLocation] = useState<{ latitude: number; longitude: number } | null>(null);
   const [nearbyStores, setNearbyStores] = useState<NearbyStore[]>([]);
   const [selectedStoreId, setSelectedStoreId] = useState<number | null>(null);
+  const [linkedStore, setLinkedStore] = useState<Store | null>(null);
   const [loadingStores, setLoadingStores] = useState(false);
   const [locationError, setLocationError] = useState<string>('');
+  const [userAddress, setUserAddress] = useState<string>('');
 
   const [isScanning, setIsScanning] = useState(false);
   const [scannedItems, setScannedItems] = useState<ScannedItem[]>([]);
   const [currentPrice, setCurrentPrice] = useState<string>('');
+  const [newProductBarcode, setNewProductBarcode] = useState<string | null>(null);
 
   // Get user's location on mount
   useEffect(() => {
     getLocation();
+    loadLinkedStore();
 
     // Cleanup on unmount
     return () => {
@@ -46,6 +52,7 @@ export default function AddPage() {
   useEffect(() => {
     if (userLocation) {
       fetchNearbyStores();
+      fetchUserAddress();
     }
   }, [userLocation]);
 
@@ -78,6 +85,45 @@ export default function AddPage() {
     );
   };
 
+  // Show a human-readable address for the current location (best effort)
+  const fetchUserAddress = async () => {
+    if (!userLocation) return;
+
+    try {
+      const response = await fetch(
+        `/api/geocode/reverse?latitude=${userLocation.latitude}&longitude=${userLocation.longitude}`
+      );
+
+      const data = await response.json();
+
+      if (data.success && data.data) {
+        const { address, city, state } = data.data.address;
+        setUserAddress([address, city, state].filter(Boolean).join(', ') || data.data.display_name || '');
+      }
+    } catch (error) {
+      console.error('Error reverse geocoding location:', error);
+    }
+  };
+
+  // A store opened from the map (/add?store_id=42) is selected instead of the closest one
+  const loadLinkedStore = async () => {
+    const storeId = parseInt(new URLSearchParams(window.location.search).get('store_id') || '');
+    if (isNaN(storeId)) return;
+
+    setSelectedStoreId(storeId);
+
+    try {
+      const response = await fetch(`/api/stores/${storeId}`);
+      const data = await response.json();
+
+      if (data.success && data.data?.store) {
+        setLinkedStore(data.data.store);
+      }
+    } catch (error) {
+      console.error('Error fetching linked store:', error);
+    }
+  };
+
   const fetchNearbyStores = async () => {
     if (!userLocation) return;
 
@@ -91,9 +137,9 @@ export default function AddPage() {
 
       if (data.success && data.data?.stores) {
         setNearbyStores(data.data.stores);
-        // Auto-select the first (closest) store
+        // Auto-select the first (closest) store unless one was linked
         if (data.data.stores.length > 0) {
-          setSelectedStoreId(data.data.stores[0].id);
+          setSelectedStoreId((current) => current ?? data.data.stores[0].id);
         }
       } else {
         setLocationError(data.message || 'No nearby stores found');
@@ -202,14 +248,32 @@ export default function AddPage() {
 
       if (drinkData.success && drinkData.data) {
         // Add to scanned items with success status
+        // No inventory means the store doesn't list it yet and no price was given
         const newItem: ScannedItem = {
           drink: drinkData.data.drink,
           timestamp: new Date(),
-          status: 'success',
+          status: drinkData.data.inventory ? 'success' : 'error',
           price: currentPrice ? parseFloat(currentPrice) : undefined,
+          ...(!drinkData.data.inventory && { errorMessage: drinkData.message }),
         };
 
         setScannedItems((prev) => [newItem, ...prev]);
+      } else if (drinkResponse.status === 404 && drinkData.pending_product_id) {
+        // Unknown barcode - offer to create it as a new product
+        const unknownItem: ScannedItem = {
+          drink: {
+            id: 0,
+            brand: 'Unknown',
+            flavor: 'Unknown',
+            size_ml: 0,
+            barcode,
+          },
+          timestamp: new Date(),
+          status: 'unknown',
+          errorMessage: 'Not in our database yet',
+        };
+
+        setScannedItems((prev) => [unknownItem, ...prev]);
       } else {
         // Drink not found or error
         const errorItem: ScannedItem = {
@@ -250,7 +314,22 @@ export default function AddPage() {
     setScannedItems((prev) => prev.filter((_, i) => i !== index));
   };
 
-  const selectedStore = nearbyStores.find((s) => s.id === selectedStoreId);
+  const handleNewProductCreated = (drink: EnergyDrink, price?: number) => {
+    setScannedItems((prev) =>
+      prev.map((item) =>
+        item.status === 'unknown' && item.drink.barcode === newProductBarcode
+          ? { drink, timestamp: new Date(), status: 'success', price }
+          : item
+      )
+    );
+    setNewProductBarcode(null);
+  };
+
+  const storeOptions: NearbyStore[] =
+    linkedStore && !nearbyStores.some((s) => s.id === linkedStore.id)
+      ? [{ ...linkedStore, distance_km: null }, ...nearbyStores]
+      : nearbyStores;
+  const selectedStore = storeOptions.find((s) => s.id === selectedStoreId);
 
   return (
     <div className="min-h-screen bg-zinc-50 dark:bg-black">
@@ -265,6 +344,12 @@ export default function AddPage() {
             Select Gas Station
           </h2>
 
+          {userAddress && (
+            <p className="text-sm text-zinc-600 dark:text-zinc-400 mb-4">
+              📍 Near {userAddress}
+            </p>
+          )}
+
           {loadingStores && (
             <div className="text-center py-4">
               <div className="inline-block animate-spin rounded-full h-8 w-8 border-4 border-blue-600 border-t-transparent"></div>
@@ -286,7 +371,7 @@ export default function AddPage() {
             </div>
           )}
 
-          {nearbyStores.length > 0 && (
+          {storeOptions.length > 0 && (
             <div className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
@@ -297,9 +382,10 @@ export default function AddPage() {
                   onChange={(e) => setSelectedStoreId(parseInt(e.target.value))}
                   className="w-full px-4 py-3 border border-zinc-300 dark:border-zinc-700 rounded-lg bg-white dark:bg-zinc-800 text-black dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 >
-                  {nearbyStores.map((store) => (
+                  {storeOptions.map((store) => (
                     <option key={store.id} value={store.id}>
-                      {store.name} - {store.address} ({store.distance_km.toFixed(2)} km)
+                      {store.name} - {store.address}
+                      {store.distance_km !== null && ` (${store.distance_km.toFixed(2)} km)`}
                     </option>
                   ))}
                 </select>
@@ -313,9 +399,11 @@ export default function AddPage() {
                   <p className="text-sm text-blue-700 dark:text-blue-300">
                     {selectedStore.address}, {selectedStore.city}, {selectedStore.state}
                   </p>
-                  <p className="text-xs text-blue-600 dark:text-blue-400 mt-1">
-                    {selectedStore.distance_km.toFixed(2)} km away
-                  </p>
+                  {selectedStore.distance_km !== null && (
+                    <p className="text-xs text-blue-600 dark:text-blue-400 mt-1">
+                      {selectedStore.distance_km.toFixed(2)} km away
+                    </p>
+                  )}
                 </div>
               )}
 
@@ -409,50 +497,77 @@ export default function AddPage() {
                   className={`p-4 rounded-lg border ${
                     item.status === 'success'
                       ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800'
-                      : 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'
+                      : item.status === 'unknown'
+                        ? 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800'
+                        : 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'
                   }`}
                 >
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <h3
-                        className={`font-semibold ${
-                          item.status === 'success'
-                            ? 'text-green-900 dark:text-green-100'
-                            : 'text-red-900 dark:text-red-100'
-                        }`}
-                      >
-                        {item.drink.brand} - {item.drink.flavor}
-                      </h3>
-                      <div className="text-sm mt-1">
-                        {item.status === 'success' ? (
-                          <>
-                            <p className="text-green-700 dark:text-green-300">
-                              {item.drink.size_ml}ml
-                              {item.price && ` • $${item.price.toFixed(2)}`}
+                  {item.status === 'unknown' && newProductBarcode === item.drink.barcode ? (
+                    <NewProductForm
+                      barcode={item.drink.barcode}
+                      storeId={selectedStoreId}
+                      storeName={selectedStore?.name}
+                      defaultPrice={currentPrice}
+                      onCreated={handleNewProductCreated}
+                      onCancel={() => setNewProductBarcode(null)}
+                    />
+                  ) : (
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <h3
+                          className={`font-semibold ${
+                            item.status === 'success'
+                              ? 'text-green-900 dark:text-green-100'
+                              : item.status === 'unknown'
+                                ? 'text-amber-900 dark:text-amber-100'
+                                : 'text-red-900 dark:text-red-100'
+                          }`}
+                        >
+                          {item.status === 'unknown' ? 'Unknown product' : `${item.drink.brand} - ${item.drink.flavor}`}
+                        </h3>
+                        <div className="text-sm mt-1">
+                          {item.status === 'success' ? (
+                            <>
+                              <p className="text-green-700 dark:text-green-300">
+                                {item.drink.size_ml}ml
+                                {item.price && ` • $${item.price.toFixed(2)}`}
+                              </p>
+                              <p className="text-green-600 dark:text-green-400 text-xs mt-1">
+                                ✓ Added successfully
+                              </p>
+                            </>
+                          ) : item.status === 'unknown' ? (
+                            <>
+                              <p className="text-amber-700 dark:text-amber-300">
+                                {item.errorMessage}
+                              </p>
+                              <button
+                                onClick={() => setNewProductBarcode(item.drink.barcode!)}
+                                className="mt-2 text-amber-700 dark:text-amber-300 underline font-medium"
+                              >
+                                Add as new product
+                              </button>
+                            </>
+                          ) : (
+                            <p className="text-red-700 dark:text-red-300">
+                              {item.errorMessage}
                             </p>
-                            <p className="text-green-600 dark:text-green-400 text-xs mt-1">
-                              ✓ Added successfully
-                            </p>
-                          </>
-                        ) : (
-                          <p className="text-red-700 dark:text-red-300">
-                            {item.errorMessage}
+                          )}
+                        </div>
+                        {item.drink.barcode && (
+                          <p className="text-xs text-zinc-500 dark:text-zinc-500 mt-1">
+                            UPC: {item.drink.barcode}
                           </p>
                         )}
                       </div>
-                      {item.drink.barcode && (
-                        <p className="text-xs text-zinc-500 dark:text-zinc-500 mt-1">
-                          UPC: {item.drink.barcode}
-                        </p>
-                      )}
+                      <button
+                        onClick={() => removeItem(index)}
+                        className="text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300 ml-4"
+                      >
+                        ✕
+                      </button>
                     </div>
-                    <button
-                      onClick={() => removeItem(index)}
-                      className="text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300 ml-4"
-                    >
-                      ✕
-                    </button>
-                  </div>
+                  )}
                 </div>
               ))}
             </div>
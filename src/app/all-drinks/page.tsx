@@ -5,15 +5,80 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
-import { Pencil, Trash2, Plus, ArrowUpDown } from 'lucide-react';
+import { Pencil, Trash2, Plus, ArrowUpDown, ScanBarcode, X, Tags, ArrowRight, Merge } from 'lucide-react';
+import {
+  CAFFEINE_SOURCE_LABELS,
+  CAFFEINE_SOURCES,
+  DRINK_AMOUNT_FIELDS,
+  SWEETENER_LABELS,
+  SWEETENER_TYPES,
+} from '@/lib/drink-details';
+import type { DrinkAmountField, DrinkDetails } from '@/lib/drink-details';
+import { PACKAGING_LABELS, PACKAGING_TYPES } from '@/lib/packaging';
+import type {
+  DrinkAlias,
+  DrinkAliasKind,
+  DrinkBarcode,
+  DuplicateDrinkCandidate,
+  DuplicateDrinkSummary,
+  DuplicateReason,
+  PackagingType,
+} from '@/types';
 
-interface Drink {
+type Drink = DrinkDetails & {
   id: number;
   brand: string;
   flavor: string;
   size_ml: number;
-  caffeine_mg: number | null;
   barcode: string | null;
+};
+
+type DrinkForm = Record<DrinkAmountField, string> & {
+  brand: string;
+  flavor: string;
+  size_ml: string;
+  barcode: string;
+  sweetener_type: string;
+  caffeine_source: string;
+  carbonated: '' | 'yes' | 'no';
+  description: string;
+  image_url: string;
+};
+
+const AMOUNT_FIELDS = Object.keys(DRINK_AMOUNT_FIELDS) as DrinkAmountField[];
+
+// Unknown details are empty in the form
+function toDrinkForm(drink: Drink | null, barcode: string = ''): DrinkForm {
+  const amounts = Object.fromEntries(
+    AMOUNT_FIELDS.map((field) => [field, drink?.[field]?.toString() ?? ''])
+  ) as Record<DrinkAmountField, string>;
+
+  return {
+    ...amounts,
+    brand: drink?.brand ?? '',
+    flavor: drink?.flavor ?? '',
+    size_ml: drink?.size_ml.toString() ?? '',
+    barcode: drink?.barcode ?? barcode,
+    sweetener_type: drink?.sweetener_type ?? '',
+    caffeine_source: drink?.caffeine_source ?? '',
+    carbonated: drink?.carbonated == null ? '' : drink.carbonated ? 'yes' : 'no',
+    description: drink?.description ?? '',
+    image_url: drink?.image_url ?? '',
+  };
+}
+
+const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  same_name: 'Same name',
+  similar_name: 'Similar name',
+  same_product_code: 'Same product code',
+};
+
+interface PendingProduct {
+  id: number;
+  barcode: string;
+  scan_count: number;
+  last_seen_at: string;
+  stores: { id: number; name: string; city: string; state: string } | null;
 }
 
 export default function AllDrinksPage() {
@@ -23,20 +88,44 @@ export default function AllDrinksPage() {
   const [brandFilter, setBrandFilter] = useState('');
   const [sortBy, setSortBy] = useState<keyof Drink>('brand');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
+  const [pendingProducts, setPendingProducts] = useState<PendingProduct[]>([]);
 
   // Edit/Add Dialog
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingDrink, setEditingDrink] = useState<Drink | null>(null);
-  const [formData, setFormData] = useState({
-    brand: '',
-    flavor: '',
-    size_ml: '',
-    caffeine_mg: '',
+  const [formError, setFormError] = useState('');
+  const [formData, setFormData] = useState<DrinkForm>(toDrinkForm(null));
+
+  // Barcodes of the drink being edited
+  const [barcodes, setBarcodes] = useState<DrinkBarcode[]>([]);
+  const [barcodeError, setBarcodeError] = useState('');
+  const [barcodeForm, setBarcodeForm] = useState({
     barcode: '',
+    packaging: 'multipack' as PackagingType,
+    pack_count: '4',
+  });
+
+  // Aliases Dialog
+  const [aliasDialogOpen, setAliasDialogOpen] = useState(false);
+  const [aliases, setAliases] = useState<DrinkAlias[]>([]);
+  const [aliasError, setAliasError] = useState('');
+  const [aliasForm, setAliasForm] = useState({
+    kind: 'flavor' as DrinkAliasKind,
+    alias: '',
+    canonical: '',
+    brand: '',
   });
 
+  // Duplicates Dialog
+  const [duplicatesDialogOpen, setDuplicatesDialogOpen] = useState(false);
+  const [duplicates, setDuplicates] = useState<DuplicateDrinkCandidate[]>([]);
+  const [loadingDuplicates, setLoadingDuplicates] = useState(false);
+  const [mergeMessage, setMergeMessage] = useState('');
+
   useEffect(() => {
     fetchDrinks();
+    fetchPendingProducts();
+    fetchAliases();
   }, []);
 
   useEffect(() => {
@@ -57,6 +146,204 @@ export default function AllDrinksPage() {
     }
   };
 
+  const fetchPendingProducts = async () => {
+    try {
+      const response = await fetch('/api/drinks/pending');
+      const data = await response.json();
+      if (data.success) {
+        setPendingProducts(data.data.pending);
+      }
+    } catch (error) {
+      console.error('Error fetching pending products:', error);
+    }
+  };
+
+  const fetchBarcodes = async (drinkId: number) => {
+    try {
+      const response = await fetch(`/api/drinks/barcodes?drink_id=${drinkId}`);
+      const data = await response.json();
+      if (data.success) {
+        setBarcodes(data.data.barcodes);
+      }
+    } catch (error) {
+      console.error('Error fetching barcodes:', error);
+    }
+  };
+
+  const handleAddBarcode = async () => {
+    if (!editingDrink || !barcodeForm.barcode) return;
+
+    try {
+      const response = await fetch('/api/drinks/barcodes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...barcodeForm, drink_id: editingDrink.id }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        // A drink without a main barcode takes the first one added
+        if (!formData.barcode) {
+          setFormData({ ...formData, barcode: data.data.barcode.barcode });
+        }
+        setBarcodeForm({ ...barcodeForm, barcode: '' });
+        setBarcodeError('');
+        fetchBarcodes(editingDrink.id);
+        fetchDrinks();
+        fetchPendingProducts();
+      } else {
+        setBarcodeError(data.error || 'Failed to add barcode');
+      }
+    } catch (error) {
+      console.error('Error adding barcode:', error);
+      setBarcodeError('Failed to add barcode');
+    }
+  };
+
+  const handleUpdateBarcode = async (barcode: DrinkBarcode, changes: Partial<DrinkBarcode>) => {
+    const updated = { ...barcode, ...changes };
+    setBarcodes(barcodes.map((code) => (code.id === barcode.id ? updated : code)));
+
+    try {
+      const response = await fetch('/api/drinks/barcodes', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: barcode.id, packaging: updated.packaging, pack_count: updated.pack_count }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        setBarcodeError(data.error || 'Failed to update barcode');
+        fetchBarcodes(barcode.drink_id);
+      }
+    } catch (error) {
+      console.error('Error updating barcode:', error);
+      setBarcodeError('Failed to update barcode');
+    }
+  };
+
+  const handleDeleteBarcode = async (barcode: DrinkBarcode) => {
+    try {
+      const response = await fetch(`/api/drinks/barcodes?id=${barcode.id}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        // Deleting the main barcode promotes another one
+        setFormData({ ...formData, barcode: data.data.main_barcode || '' });
+        fetchBarcodes(barcode.drink_id);
+        fetchDrinks();
+      }
+    } catch (error) {
+      console.error('Error deleting barcode:', error);
+    }
+  };
+
+  const fetchAliases = async () => {
+    try {
+      const response = await fetch('/api/drinks/aliases');
+      const data = await response.json();
+      if (data.success) {
+        setAliases(data.data.aliases);
+      }
+    } catch (error) {
+      console.error('Error fetching aliases:', error);
+    }
+  };
+
+  const handleAddAlias = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const response = await fetch('/api/drinks/aliases', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(aliasForm),
+      });
+
+      if (response.ok) {
+        setAliasForm({ ...aliasForm, alias: '', canonical: '' });
+        setAliasError('');
+        fetchAliases();
+      } else {
+        const data = await response.json();
+        setAliasError(data.error || 'Failed to save alias');
+      }
+    } catch (error) {
+      console.error('Error saving alias:', error);
+      setAliasError('Failed to save alias');
+    }
+  };
+
+  const handleDeleteAlias = async (id: number) => {
+    try {
+      const response = await fetch(`/api/drinks/aliases?id=${id}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        fetchAliases();
+      }
+    } catch (error) {
+      console.error('Error deleting alias:', error);
+    }
+  };
+
+  const fetchDuplicates = async () => {
+    setLoadingDuplicates(true);
+    try {
+      const response = await fetch('/api/drinks/duplicates');
+      const data = await response.json();
+      if (data.success) {
+        setDuplicates(data.data.candidates);
+      }
+    } catch (error) {
+      console.error('Error fetching duplicates:', error);
+    } finally {
+      setLoadingDuplicates(false);
+    }
+  };
+
+  const openDuplicates = () => {
+    setMergeMessage('');
+    setDuplicatesDialogOpen(true);
+    fetchDuplicates();
+  };
+
+  const handleMerge = async (keep: DuplicateDrinkSummary, merge: DuplicateDrinkSummary) => {
+    const confirmed = confirm(
+      `Merge ${merge.brand} ${merge.flavor} (${merge.size_ml}ml) into ${keep.brand} ${keep.flavor} ` +
+        `(${keep.size_ml}ml)? Its inventory moves over and it is deleted.`
+    );
+    if (!confirmed) return;
+
+    try {
+      const response = await fetch('/api/drinks/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ keep_id: keep.id, merge_id: merge.id }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setMergeMessage(
+          data.data.barcodes_moved
+            ? `${data.message} (${data.data.barcodes_moved} barcodes moved)`
+            : data.message
+        );
+        fetchDuplicates();
+        fetchDrinks();
+        fetchPendingProducts();
+      } else {
+        setMergeMessage(data.message || 'Failed to merge drinks');
+      }
+    } catch (error) {
+      console.error('Error merging drinks:', error);
+      setMergeMessage('Failed to merge drinks');
+    }
+  };
+
   const filterAndSortDrinks = () => {
     let filtered = [...drinks];
 
@@ -100,27 +387,34 @@ export default function AllDrinksPage() {
     }
   };
 
-  const handleAdd = () => {
+  const handleAdd = (barcode: string = '') => {
     setEditingDrink(null);
-    setFormData({
-      brand: '',
-      flavor: '',
-      size_ml: '',
-      caffeine_mg: '',
-      barcode: '',
-    });
+    setFormData(toDrinkForm(null, barcode));
+    setFormError('');
     setDialogOpen(true);
   };
 
+  const handleDismissPending = async (id: number) => {
+    try {
+      const response = await fetch(`/api/drinks/pending?id=${id}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        fetchPendingProducts();
+      }
+    } catch (error) {
+      console.error('Error dismissing pending product:', error);
+    }
+  };
+
   const handleEdit = (drink: Drink) => {
     setEditingDrink(drink);
-    setFormData({
-      brand: drink.brand,
-      flavor: drink.flavor,
-      size_ml: drink.size_ml.toString(),
-      caffeine_mg: drink.caffeine_mg?.toString() || '',
-      barcode: drink.barcode || '',
-    });
+    setFormData(toDrinkForm(drink));
+    setFormError('');
+    setBarcodes([]);
+    setBarcodeError('');
+    fetchBarcodes(drink.id);
     setDialogOpen(true);
   };
 
@@ -145,12 +439,13 @@ export default function AllDrinksPage() {
 
     const payload = {
       ...formData,
+      carbonated: formData.carbonated ? formData.carbonated === 'yes' : null,
       id: editingDrink?.id,
     };
 
     try {
       const response = await fetch('/api/drinks/manage', {
-        method: editingDrink ? 'PUT' : 'POST',
+        method: editingDrink ? 'PATCH' : 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(payload),
       });
@@ -158,9 +453,14 @@ export default function AllDrinksPage() {
       if (response.ok) {
         setDialogOpen(false);
         fetchDrinks();
+        fetchPendingProducts();
+      } else {
+        const data = await response.json();
+        setFormError(data.error || 'Failed to save drink');
       }
     } catch (error) {
       console.error('Error saving drink:', error);
+      setFormError('Failed to save drink');
     }
   };
 
@@ -181,12 +481,79 @@ export default function AllDrinksPage() {
             onChange={(e) => setBrandFilter(e.target.value)}
             className="max-w-xs bg-zinc-900 border-purple-500/30 text-white"
           />
-          <Button onClick={handleAdd} className="bg-purple-600 hover:bg-purple-700">
+          <Button onClick={() => handleAdd()} className="bg-purple-600 hover:bg-purple-700">
             <Plus className="w-4 h-4 mr-2" />
             Add Drink
           </Button>
+          <Button
+            onClick={() => {
+              setAliasError('');
+              setAliasDialogOpen(true);
+            }}
+            variant="ghost"
+            className="text-purple-400 hover:text-purple-300 hover:bg-purple-500/10"
+          >
+            <Tags className="w-4 h-4 mr-2" />
+            Aliases ({aliases.length})
+          </Button>
+          <Button
+            onClick={openDuplicates}
+            variant="ghost"
+            className="text-purple-400 hover:text-purple-300 hover:bg-purple-500/10"
+          >
+            <Merge className="w-4 h-4 mr-2" />
+            Find Duplicates
+          </Button>
         </div>
 
+        {/* Pending Products */}
+        {pendingProducts.length > 0 && (
+          <div className="mb-6 bg-zinc-900 border border-amber-500/30 rounded-lg p-4">
+            <h2 className="text-lg font-semibold text-amber-400 mb-1 flex items-center gap-2">
+              <ScanBarcode className="w-5 h-5" />
+              Pending Products ({pendingProducts.length})
+            </h2>
+            <p className="text-sm text-zinc-400 mb-3">
+              Barcodes that were scanned but aren&apos;t in the database yet
+            </p>
+            <div className="space-y-2">
+              {pendingProducts.map((pending) => (
+                <div
+                  key={pending.id}
+                  className="flex items-center justify-between gap-4 px-3 py-2 rounded bg-black/30 border border-amber-500/10"
+                >
+                  <div>
+                    <div className="font-mono text-white">{pending.barcode}</div>
+                    <div className="text-xs text-zinc-500">
+                      Scanned {pending.scan_count} {pending.scan_count === 1 ? 'time' : 'times'}
+                      {pending.stores && ` • ${pending.stores.name}, ${pending.stores.city}`}
+                      {' • '}last seen {new Date(pending.last_seen_at).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      onClick={() => handleAdd(pending.barcode)}
+                      size="sm"
+                      className="bg-purple-600 hover:bg-purple-700"
+                    >
+                      <Plus className="w-4 h-4" />
+                      Create
+                    </Button>
+                    <Button
+                      onClick={() => handleDismissPending(pending.id)}
+                      size="sm"
+                      variant="ghost"
+                      className="text-zinc-400 hover:text-zinc-300 hover:bg-zinc-500/10"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Stats */}
         <div className="mb-4 text-zinc-400 text-sm">
           Showing {filteredDrinks.length} of {drinks.length} drinks
@@ -289,7 +656,7 @@ export default function AllDrinksPage() {
 
         {/* Add/Edit Dialog */}
         <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-          <DialogContent className="bg-zinc-900 border-purple-500/30 text-white">
+          <DialogContent className="bg-zinc-900 border-purple-500/30 text-white max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle className="text-xl">
                 {editingDrink ? 'Edit Drink' : 'Add New Drink'}
@@ -327,14 +694,82 @@ export default function AllDrinksPage() {
                   placeholder="e.g., 473, 355"
                 />
               </div>
+              <div className="grid grid-cols-2 gap-3">
+                {AMOUNT_FIELDS.map((field) => (
+                  <div key={field}>
+                    <label className="text-sm text-zinc-400 mb-1 block">{DRINK_AMOUNT_FIELDS[field].label}</label>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={DRINK_AMOUNT_FIELDS[field].integer ? 1 : 0.01}
+                      value={formData[field]}
+                      onChange={(e) => setFormData({ ...formData, [field]: e.target.value })}
+                      className="bg-zinc-800 border-purple-500/30 text-white"
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="text-sm text-zinc-400 mb-1 block">Sweetener</label>
+                  <select
+                    value={formData.sweetener_type}
+                    onChange={(e) => setFormData({ ...formData, sweetener_type: e.target.value })}
+                    className="w-full h-9 rounded-md px-2 bg-zinc-800 border border-purple-500/30 text-white text-sm"
+                  >
+                    <option value="">Unknown</option>
+                    {SWEETENER_TYPES.map((type) => (
+                      <option key={type} value={type}>
+                        {SWEETENER_LABELS[type]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-sm text-zinc-400 mb-1 block">Caffeine source</label>
+                  <select
+                    value={formData.caffeine_source}
+                    onChange={(e) => setFormData({ ...formData, caffeine_source: e.target.value })}
+                    className="w-full h-9 rounded-md px-2 bg-zinc-800 border border-purple-500/30 text-white text-sm"
+                  >
+                    <option value="">Unknown</option>
+                    {CAFFEINE_SOURCES.map((source) => (
+                      <option key={source} value={source}>
+                        {CAFFEINE_SOURCE_LABELS[source]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-sm text-zinc-400 mb-1 block">Carbonated</label>
+                  <select
+                    value={formData.carbonated}
+                    onChange={(e) => setFormData({ ...formData, carbonated: e.target.value as DrinkForm['carbonated'] })}
+                    className="w-full h-9 rounded-md px-2 bg-zinc-800 border border-purple-500/30 text-white text-sm"
+                  >
+                    <option value="">Unknown</option>
+                    <option value="yes">Yes</option>
+                    <option value="no">No</option>
+                  </select>
+                </div>
+              </div>
               <div>
-                <label className="text-sm text-zinc-400 mb-1 block">Caffeine (mg)</label>
+                <label className="text-sm text-zinc-400 mb-1 block">Description</label>
+                <textarea
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  rows={2}
+                  className="w-full rounded-md px-3 py-2 bg-zinc-800 border border-purple-500/30 text-white text-sm"
+                />
+              </div>
+              <div>
+                <label className="text-sm text-zinc-400 mb-1 block">Image URL</label>
                 <Input
-                  type="number"
-                  value={formData.caffeine_mg}
-                  onChange={(e) => setFormData({ ...formData, caffeine_mg: e.target.value })}
+                  type="url"
+                  value={formData.image_url}
+                  onChange={(e) => setFormData({ ...formData, image_url: e.target.value })}
                   className="bg-zinc-800 border-purple-500/30 text-white"
-                  placeholder="e.g., 200, 160"
+                  placeholder="https://..."
                 />
               </div>
               <div>
@@ -346,6 +781,86 @@ export default function AllDrinksPage() {
                   placeholder="e.g., 0070847811503"
                 />
               </div>
+              {editingDrink && (
+                <div className="space-y-2">
+                  <label className="text-sm text-zinc-400 block">All barcodes</label>
+                  {barcodes.map((code) => (
+                    <div key={code.id} className="flex items-center gap-2">
+                      <span className="flex-1 font-mono text-sm text-zinc-300 truncate">
+                        {code.barcode}
+                        {code.barcode === formData.barcode && (
+                          <span className="ml-2 text-xs text-purple-400">main</span>
+                        )}
+                      </span>
+                      <select
+                        value={code.packaging}
+                        onChange={(e) => handleUpdateBarcode(code, { packaging: e.target.value as PackagingType })}
+                        className="h-9 rounded-md px-2 bg-zinc-800 border border-purple-500/30 text-white text-sm"
+                      >
+                        {PACKAGING_TYPES.map((type) => (
+                          <option key={type} value={type}>
+                            {PACKAGING_LABELS[type]}
+                          </option>
+                        ))}
+                      </select>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={code.pack_count}
+                        onChange={(e) => handleUpdateBarcode(code, { pack_count: parseInt(e.target.value) || 1 })}
+                        className="w-20 bg-zinc-800 border-purple-500/30 text-white"
+                        title="Cans per package"
+                      />
+                      <Button
+                        type="button"
+                        onClick={() => handleDeleteBarcode(code)}
+                        size="sm"
+                        variant="ghost"
+                        className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={barcodeForm.barcode}
+                      onChange={(e) => setBarcodeForm({ ...barcodeForm, barcode: e.target.value })}
+                      className="flex-1 bg-zinc-800 border-purple-500/30 text-white"
+                      placeholder="Another barcode"
+                    />
+                    <select
+                      value={barcodeForm.packaging}
+                      onChange={(e) => setBarcodeForm({ ...barcodeForm, packaging: e.target.value as PackagingType })}
+                      className="h-9 rounded-md px-2 bg-zinc-800 border border-purple-500/30 text-white text-sm"
+                    >
+                      {PACKAGING_TYPES.map((type) => (
+                        <option key={type} value={type}>
+                          {PACKAGING_LABELS[type]}
+                        </option>
+                      ))}
+                    </select>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={barcodeForm.pack_count}
+                      onChange={(e) => setBarcodeForm({ ...barcodeForm, pack_count: e.target.value })}
+                      className="w-20 bg-zinc-800 border-purple-500/30 text-white"
+                      title="Cans per package"
+                    />
+                    <Button
+                      type="button"
+                      onClick={handleAddBarcode}
+                      size="sm"
+                      className="bg-purple-600 hover:bg-purple-700"
+                    >
+                      <Plus className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  {barcodeError && <p className="text-sm text-red-400">{barcodeError}</p>}
+                </div>
+              )}
+              {formError && <p className="text-sm text-red-400">{formError}</p>}
               <DialogFooter>
                 <Button
                   type="button"
@@ -362,6 +877,156 @@ export default function AllDrinksPage() {
             </form>
           </DialogContent>
         </Dialog>
+
+        {/* Duplicates Dialog */}
+        <Dialog open={duplicatesDialogOpen} onOpenChange={setDuplicatesDialogOpen}>
+          <DialogContent className="bg-zinc-900 border-purple-500/30 text-white sm:max-w-2xl">
+            <DialogHeader>
+              <DialogTitle className="text-xl">Possible Duplicates</DialogTitle>
+            </DialogHeader>
+            <p className="text-sm text-zinc-400">
+              Keep one drink of each pair; the other one&apos;s inventory, price history and barcode move to it.
+            </p>
+            {mergeMessage && <p className="text-sm text-purple-300">{mergeMessage}</p>}
+            <div className="max-h-96 overflow-y-auto space-y-3">
+              {loadingDuplicates ? (
+                <p className="text-sm text-zinc-500 py-2">Looking for duplicates...</p>
+              ) : duplicates.length === 0 ? (
+                <p className="text-sm text-zinc-500 py-2">No duplicates found</p>
+              ) : (
+                duplicates.map((candidate) => (
+                  <div
+                    key={`${candidate.drinks[0].id}-${candidate.drinks[1].id}`}
+                    className="rounded bg-black/30 border border-purple-500/10 p-3"
+                  >
+                    <div className="flex gap-2 mb-2">
+                      {candidate.reasons.map((reason) => (
+                        <span key={reason} className="text-xs px-2 py-0.5 rounded bg-purple-500/20 text-purple-300">
+                          {DUPLICATE_REASON_LABELS[reason]}
+                        </span>
+                      ))}
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      {candidate.drinks.map((drink, index) => (
+                        <div key={drink.id} className="flex flex-col justify-between gap-2 text-sm">
+                          <div>
+                            <div className="font-medium text-white">
+                              {drink.brand} {drink.flavor}
+                            </div>
+                            <div className="text-xs text-zinc-500">
+                              {drink.size_ml}ml
+                              {drink.caffeine_mg !== null && ` • ${drink.caffeine_mg}mg caffeine`}
+                              {` • ${drink.inventory_count} ${drink.inventory_count === 1 ? 'store' : 'stores'}`}
+                            </div>
+                            <div className="text-xs text-zinc-500 font-mono">{drink.barcode || 'No barcode'}</div>
+                          </div>
+                          <Button
+                            onClick={() => handleMerge(drink, candidate.drinks[1 - index])}
+                            size="sm"
+                            className="bg-purple-600 hover:bg-purple-700 self-start"
+                          >
+                            Keep this one
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        {/* Aliases Dialog */}
+        <Dialog open={aliasDialogOpen} onOpenChange={setAliasDialogOpen}>
+          <DialogContent className="bg-zinc-900 border-purple-500/30 text-white sm:max-w-xl">
+            <DialogHeader>
+              <DialogTitle className="text-xl">Brand &amp; Flavor Aliases</DialogTitle>
+            </DialogHeader>
+            <p className="text-sm text-zinc-400">
+              Other names people use for a brand or flavor. Search and autocomplete match them, and new
+              drinks are saved under the canonical name.
+            </p>
+            <div className="max-h-64 overflow-y-auto space-y-1">
+              {aliases.length === 0 ? (
+                <p className="text-sm text-zinc-500 py-2">No aliases yet</p>
+              ) : (
+                aliases.map((alias) => (
+                  <div
+                    key={alias.id}
+                    className="flex items-center justify-between gap-4 px-3 py-1.5 rounded bg-black/30 text-sm"
+                  >
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="text-xs uppercase text-purple-400 w-12 shrink-0">{alias.kind}</span>
+                      <span className="text-white truncate">{alias.alias}</span>
+                      <ArrowRight className="w-3.5 h-3.5 text-zinc-500 shrink-0" />
+                      <span className="text-zinc-300 truncate">{alias.canonical}</span>
+                      {alias.brand && <span className="text-xs text-zinc-500 shrink-0">({alias.brand} only)</span>}
+                    </div>
+                    <Button
+                      onClick={() => handleDeleteAlias(alias.id)}
+                      size="sm"
+                      variant="ghost"
+                      className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+            <form onSubmit={handleAddAlias} className="grid grid-cols-2 gap-3 pt-2 border-t border-purple-500/20">
+              <div>
+                <label className="text-sm text-zinc-400 mb-1 block">Kind</label>
+                <select
+                  value={aliasForm.kind}
+                  onChange={(e) => setAliasForm({ ...aliasForm, kind: e.target.value as DrinkAliasKind })}
+                  className="w-full h-9 rounded-md px-3 bg-zinc-800 border border-purple-500/30 text-white text-sm"
+                >
+                  <option value="brand">Brand</option>
+                  <option value="flavor">Flavor</option>
+                </select>
+              </div>
+              <div>
+                <label className="text-sm text-zinc-400 mb-1 block">Brand (optional)</label>
+                <Input
+                  value={aliasForm.brand}
+                  onChange={(e) => setAliasForm({ ...aliasForm, brand: e.target.value })}
+                  disabled={aliasForm.kind === 'brand'}
+                  className="bg-zinc-800 border-purple-500/30 text-white"
+                  placeholder="Every brand"
+                />
+              </div>
+              <div>
+                <label className="text-sm text-zinc-400 mb-1 block">Alias</label>
+                <Input
+                  value={aliasForm.alias}
+                  onChange={(e) => setAliasForm({ ...aliasForm, alias: e.target.value })}
+                  required
+                  className="bg-zinc-800 border-purple-500/30 text-white"
+                  placeholder={aliasForm.kind === 'brand' ? 'e.g., Monster Energy' : 'e.g., Green'}
+                />
+              </div>
+              <div>
+                <label className="text-sm text-zinc-400 mb-1 block">Canonical name</label>
+                <Input
+                  value={aliasForm.canonical}
+                  onChange={(e) => setAliasForm({ ...aliasForm, canonical: e.target.value })}
+                  required
+                  className="bg-zinc-800 border-purple-500/30 text-white"
+                  placeholder={aliasForm.kind === 'brand' ? 'e.g., Monster' : 'e.g., Original'}
+                />
+              </div>
+              {aliasError && <p className="col-span-2 text-sm text-red-400">{aliasError}</p>}
+              <div className="col-span-2 flex justify-end">
+                <Button type="submit" className="bg-purple-600 hover:bg-purple-700">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Alias
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
       </div>
     </div>
   );
@@ -0,0 +1,519 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Pencil, Trash2, Plus, ArrowUpDown } from 'lucide-react';
+import { WEEKDAYS, formatDayHours, getTodayHours, parseDayHours } from '@/lib/hours';
+import { STORE_TYPES, STORE_TYPE_LABELS } from '@/lib/store-types';
+import type { StoreHours, StoreType, TimeRange, Weekday } from '@/types';
+
+interface Store {
+  id: number;
+  name: string;
+  store_type: StoreType;
+  address: string;
+  city: string;
+  state: string;
+  zip_code: string;
+  latitude: number;
+  longitude: number;
+  phone: string | null;
+  hours_json: StoreHours | null;
+  open_now: boolean | null;
+}
+
+type SortableColumn = 'name' | 'store_type' | 'address' | 'city' | 'state';
+
+const emptyHours = (): Record<Weekday, string> =>
+  Object.fromEntries(WEEKDAYS.map((day) => [day, ''])) as Record<Weekday, string>;
+
+export default function AllStoresPage() {
+  const [stores, setStores] = useState<Store[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState('');
+  const [sortBy, setSortBy] = useState<SortableColumn>('name');
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
+
+  // Edit/Add Dialog
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingStore, setEditingStore] = useState<Store | null>(null);
+  const [formError, setFormError] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    name: '',
+    store_type: 'fuel' as StoreType,
+    phone: '',
+    address: '',
+    city: '',
+    state: '',
+    zip_code: '',
+    latitude: '',
+    longitude: '',
+  });
+  const [hours, setHours] = useState<Record<Weekday, string>>(emptyHours());
+  const [alwaysOpen, setAlwaysOpen] = useState(false);
+  const [timezone, setTimezone] = useState('');
+
+  useEffect(() => {
+    fetchStores();
+  }, []);
+
+  const fetchStores = async () => {
+    try {
+      const response = await fetch('/api/stores/manage');
+      const data = await response.json();
+      if (data.success) {
+        setStores(data.data.stores);
+      }
+    } catch (error) {
+      console.error('Error fetching stores:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const filteredStores = useMemo(() => {
+    let filtered = [...stores];
+
+    // Apply name/city filter
+    if (filter) {
+      const query = filter.toLowerCase();
+      filtered = filtered.filter(
+        (store) => store.name.toLowerCase().includes(query) || store.city.toLowerCase().includes(query)
+      );
+    }
+
+    // Apply sorting
+    filtered.sort((a, b) =>
+      sortOrder === 'asc' ? a[sortBy].localeCompare(b[sortBy]) : b[sortBy].localeCompare(a[sortBy])
+    );
+
+    return filtered;
+  }, [stores, filter, sortBy, sortOrder]);
+
+  const toggleSort = (column: SortableColumn) => {
+    if (sortBy === column) {
+      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortBy(column);
+      setSortOrder('asc');
+    }
+  };
+
+  const handleAdd = () => {
+    setEditingStore(null);
+    setFormData({
+      name: '',
+      store_type: 'fuel',
+      phone: '',
+      address: '',
+      city: '',
+      state: '',
+      zip_code: '',
+      latitude: '',
+      longitude: '',
+    });
+    setHours(emptyHours());
+    setAlwaysOpen(false);
+    setTimezone('');
+    setFormError('');
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (store: Store) => {
+    setEditingStore(store);
+    setFormData({
+      name: store.name,
+      store_type: store.store_type,
+      phone: store.phone || '',
+      address: store.address,
+      city: store.city,
+      state: store.state,
+      zip_code: store.zip_code,
+      latitude: store.latitude.toString(),
+      longitude: store.longitude.toString(),
+    });
+    setHours(
+      Object.fromEntries(
+        WEEKDAYS.map((day) => [day, formatDayHours(store.hours_json?.days?.[day])])
+      ) as Record<Weekday, string>
+    );
+    setAlwaysOpen(store.hours_json?.always_open ?? false);
+    setTimezone(store.hours_json?.timezone ?? '');
+    setFormError('');
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!confirm('Are you sure you want to delete this store? Its inventory will be deleted too.')) return;
+
+    try {
+      const response = await fetch(`/api/stores/manage?id=${id}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        fetchStores();
+      }
+    } catch (error) {
+      console.error('Error deleting store:', error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // When the address was edited but the coordinates weren't, let the API geocode the new address
+    const addressChanged =
+      editingStore !== null &&
+      (formData.address !== editingStore.address ||
+        formData.city !== editingStore.city ||
+        formData.state !== editingStore.state ||
+        formData.zip_code !== editingStore.zip_code);
+    const coordinatesUnchanged =
+      editingStore !== null &&
+      formData.latitude === editingStore.latitude.toString() &&
+      formData.longitude === editingStore.longitude.toString();
+    const regeocode = addressChanged && coordinatesUnchanged;
+
+    // Blank days are closed; a store with no hours entered at all has unknown hours
+    const days: Partial<Record<Weekday, TimeRange[]>> = {};
+    for (const day of WEEKDAYS) {
+      const ranges = parseDayHours(hours[day]);
+      if (ranges === null) {
+        setFormError(`Couldn't read the hours for ${day}. Use HH:MM-HH:MM, separated by commas.`);
+        return;
+      }
+      days[day] = ranges;
+    }
+
+    const hasHours = alwaysOpen || WEEKDAYS.some((day) => hours[day].trim());
+    const hoursJson: StoreHours | null = hasHours
+      ? {
+          ...(timezone.trim() ? { timezone: timezone.trim() } : {}),
+          ...(alwaysOpen ? { always_open: true } : { days }),
+        }
+      : null;
+
+    const payload = {
+      ...formData,
+      latitude: regeocode ? '' : formData.latitude,
+      longitude: regeocode ? '' : formData.longitude,
+      hours_json: hoursJson,
+      id: editingStore?.id,
+    };
+
+    setSaving(true);
+    try {
+      const response = await fetch('/api/stores/manage', {
+        method: editingStore ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+
+      if (response.ok) {
+        setDialogOpen(false);
+        fetchStores();
+      } else {
+        const data = await response.json();
+        setFormError(data.error || 'Failed to save store');
+      }
+    } catch (error) {
+      console.error('Error saving store:', error);
+      setFormError('Failed to save store');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const sortableHead = (column: SortableColumn, label: string) => (
+    <TableHead className="text-purple-400">
+      <button
+        onClick={() => toggleSort(column)}
+        className="flex items-center gap-2 hover:text-purple-300"
+      >
+        {label}
+        <ArrowUpDown className="w-4 h-4" />
+      </button>
+    </TableHead>
+  );
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-black">
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-white mb-2">All Stores</h1>
+          <p className="text-zinc-400">Manage stores and their details</p>
+        </div>
+
+        {/* Controls */}
+        <div className="flex gap-4 mb-6">
+          <Input
+            placeholder="Filter by name or city..."
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            className="max-w-xs bg-zinc-900 border-purple-500/30 text-white"
+          />
+          <Button onClick={handleAdd} className="bg-purple-600 hover:bg-purple-700">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Store
+          </Button>
+        </div>
+
+        {/* Stats */}
+        <div className="mb-4 text-zinc-400 text-sm">
+          Showing {filteredStores.length} of {stores.length} stores
+        </div>
+
+        {/* Table */}
+        <div className="bg-zinc-900 border border-purple-500/20 rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-purple-500/20 hover:bg-purple-500/5">
+                {sortableHead('name', 'Name')}
+                {sortableHead('store_type', 'Type')}
+                {sortableHead('address', 'Address')}
+                {sortableHead('city', 'City')}
+                {sortableHead('state', 'State')}
+                <TableHead className="text-purple-400">Zip</TableHead>
+                <TableHead className="text-purple-400">Phone</TableHead>
+                <TableHead className="text-purple-400">Today</TableHead>
+                <TableHead className="text-purple-400 text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center py-8 text-zinc-400">
+                    Loading...
+                  </TableCell>
+                </TableRow>
+              ) : filteredStores.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center py-8 text-zinc-400">
+                    No stores found
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filteredStores.map((store) => (
+                  <TableRow key={store.id} className="border-purple-500/10 hover:bg-purple-500/5">
+                    <TableCell className="font-medium text-white">{store.name}</TableCell>
+                    <TableCell className="text-zinc-300">{STORE_TYPE_LABELS[store.store_type]}</TableCell>
+                    <TableCell className="text-zinc-300">{store.address}</TableCell>
+                    <TableCell className="text-zinc-300">{store.city}</TableCell>
+                    <TableCell className="text-zinc-300">{store.state}</TableCell>
+                    <TableCell className="text-zinc-400 text-sm font-mono">{store.zip_code}</TableCell>
+                    <TableCell className="text-zinc-300">{store.phone || '-'}</TableCell>
+                    <TableCell className="text-sm">
+                      {store.hours_json ? (
+                        <span className={store.open_now ? 'text-green-400' : 'text-zinc-400'}>
+                          {getTodayHours(store)}
+                        </span>
+                      ) : (
+                        <span className="text-zinc-500">-</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex gap-2 justify-end">
+                        <Button
+                          onClick={() => handleEdit(store)}
+                          size="sm"
+                          variant="ghost"
+                          className="text-purple-400 hover:text-purple-300 hover:bg-purple-500/10"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          onClick={() => handleDelete(store.id)}
+                          size="sm"
+                          variant="ghost"
+                          className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {/* Add/Edit Dialog */}
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogContent className="bg-zinc-900 border-purple-500/30 text-white max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle className="text-xl">
+                {editingStore ? 'Edit Store' : 'Add New Store'}
+              </DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="text-sm text-zinc-400 mb-1 block">Name</label>
+                <Input
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  required
+                  className="bg-zinc-800 border-purple-500/30 text-white"
+                  placeholder="e.g., Shell, Wawa"
+                />
+              </div>
+              <div>
+                <label className="text-sm text-zinc-400 mb-1 block">Type</label>
+                <select
+                  value={formData.store_type}
+                  onChange={(e) => setFormData({ ...formData, store_type: e.target.value as StoreType })}
+                  className="w-full h-9 rounded-md px-3 bg-zinc-800 border border-purple-500/30 text-white text-sm"
+                >
+                  {STORE_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {STORE_TYPE_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="text-sm text-zinc-400 mb-1 block">Phone</label>
+                <Input
+                  value={formData.phone}
+                  onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                  maxLength={20}
+                  className="bg-zinc-800 border-purple-500/30 text-white"
+                  placeholder="e.g., (212) 555-0100"
+                />
+              </div>
+              <div>
+                <label className="text-sm text-zinc-400 mb-1 block">Address</label>
+                <Input
+                  value={formData.address}
+                  onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                  required
+                  className="bg-zinc-800 border-purple-500/30 text-white"
+                  placeholder="e.g., 555 5th Ave"
+                />
+              </div>
+              <div className="grid grid-cols-[1fr_5rem_7rem] gap-2">
+                <div>
+                  <label className="text-sm text-zinc-400 mb-1 block">City</label>
+                  <Input
+                    value={formData.city}
+                    onChange={(e) => setFormData({ ...formData, city: e.target.value })}
+                    required
+                    className="bg-zinc-800 border-purple-500/30 text-white"
+                  />
+                </div>
+                <div>
+                  <label className="text-sm text-zinc-400 mb-1 block">State</label>
+                  <Input
+                    value={formData.state}
+                    onChange={(e) => setFormData({ ...formData, state: e.target.value.toUpperCase() })}
+                    required
+                    maxLength={2}
+                    className="bg-zinc-800 border-purple-500/30 text-white"
+                    placeholder="NY"
+                  />
+                </div>
+                <div>
+                  <label className="text-sm text-zinc-400 mb-1 block">Zip</label>
+                  <Input
+                    value={formData.zip_code}
+                    onChange={(e) => setFormData({ ...formData, zip_code: e.target.value })}
+                    required
+                    maxLength={10}
+                    className="bg-zinc-800 border-purple-500/30 text-white"
+                    placeholder="10017"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="text-sm text-zinc-400 mb-1 block">Latitude</label>
+                  <Input
+                    type="number"
+                    step="any"
+                    value={formData.latitude}
+                    onChange={(e) => setFormData({ ...formData, latitude: e.target.value })}
+                    className="bg-zinc-800 border-purple-500/30 text-white"
+                  />
+                </div>
+                <div>
+                  <label className="text-sm text-zinc-400 mb-1 block">Longitude</label>
+                  <Input
+                    type="number"
+                    step="any"
+                    value={formData.longitude}
+                    onChange={(e) => setFormData({ ...formData, longitude: e.target.value })}
+                    className="bg-zinc-800 border-purple-500/30 text-white"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-zinc-500">
+                Leave the coordinates blank to look them up from the address.
+              </p>
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <label className="text-sm text-zinc-400">Hours</label>
+                  <label className="text-sm text-zinc-300 flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={alwaysOpen}
+                      onChange={(e) => setAlwaysOpen(e.target.checked)}
+                      className="accent-purple-600"
+                    />
+                    Open 24/7
+                  </label>
+                </div>
+                <div className="space-y-1">
+                  {!alwaysOpen && WEEKDAYS.map((day) => (
+                    <div key={day} className="grid grid-cols-[6rem_1fr] items-center gap-2">
+                      <span className="text-sm text-zinc-300 capitalize">{day}</span>
+                      <Input
+                        value={hours[day]}
+                        onChange={(e) => setHours({ ...hours, [day]: e.target.value })}
+                        className="bg-zinc-800 border-purple-500/30 text-white h-8"
+                        placeholder="e.g., 06:00-22:00 (blank = closed)"
+                      />
+                    </div>
+                  ))}
+                  <div className="grid grid-cols-[6rem_1fr] items-center gap-2">
+                    <span className="text-sm text-zinc-300">Time zone</span>
+                    <Input
+                      value={timezone}
+                      onChange={(e) => setTimezone(e.target.value)}
+                      className="bg-zinc-800 border-purple-500/30 text-white h-8"
+                      placeholder="Default for the state, e.g., America/New_York"
+                    />
+                  </div>
+                </div>
+                {!alwaysOpen && (
+                  <p className="text-xs text-zinc-500 mt-1">
+                    A closing time before the opening time runs past midnight, e.g., 18:00-02:00.
+                  </p>
+                )}
+              </div>
+              {formError && <p className="text-sm text-red-400">{formError}</p>}
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={() => setDialogOpen(false)}
+                  className="text-zinc-400"
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving} className="bg-purple-600 hover:bg-purple-700">
+                  {saving ? 'Saving...' : editingStore ? 'Save Changes' : 'Add Store'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </div>
+  );
+}
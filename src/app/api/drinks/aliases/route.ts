@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { DRINK_ALIAS_KINDS } from '@/lib/drink-aliases';
+import type { DrinkAliasKind } from '@/types';
+
+const prisma = new PrismaClient();
+
+// GET all brand and flavor aliases
+export async function GET() {
+  try {
+    const aliases = await prisma.drink_aliases.findMany({
+      orderBy: [{ kind: 'asc' }, { canonical: 'asc' }, { alias: 'asc' }],
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { aliases },
+    });
+  } catch (error) {
+    console.error('Error fetching drink aliases:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch drink aliases' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create an alias; brand limits a flavor alias to one brand
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const kind = body.kind as DrinkAliasKind;
+    const alias = typeof body.alias === 'string' ? body.alias.trim() : '';
+    const canonical = typeof body.canonical === 'string' ? body.canonical.trim() : '';
+    const brand = typeof body.brand === 'string' && body.brand.trim() ? body.brand.trim() : null;
+
+    if (!DRINK_ALIAS_KINDS.includes(kind)) {
+      return NextResponse.json(
+        { success: false, error: `Kind must be one of ${DRINK_ALIAS_KINDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!alias || !canonical) {
+      return NextResponse.json(
+        { success: false, error: 'Alias and canonical name are required' },
+        { status: 400 }
+      );
+    }
+
+    if (alias.toLowerCase() === canonical.toLowerCase()) {
+      return NextResponse.json(
+        { success: false, error: 'An alias must differ from the canonical name' },
+        { status: 400 }
+      );
+    }
+
+    if (kind === 'brand' && brand) {
+      return NextResponse.json(
+        { success: false, error: 'Only flavor aliases can be limited to a brand' },
+        { status: 400 }
+      );
+    }
+
+    const created = await prisma.drink_aliases.create({
+      data: { kind, alias, canonical, brand },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { alias: created },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json(
+        { success: false, error: 'This alias already exists' },
+        { status: 409 }
+      );
+    }
+
+    console.error('Error creating drink alias:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create drink alias' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove an alias
+export async function DELETE(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Alias ID is required' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.drink_aliases.delete({
+      where: { id: parseInt(id) },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Alias deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting drink alias:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete drink alias' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,110 +1,152 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PrismaClient } from '@prisma/client';
+import { sql } from '@/lib/db';
+import { escapeLike, highlightMatches, parseDrinkQuery } from '@/lib/drink-match';
+import type { DrinkSuggestion } from '@/types';
 
-const prisma = new PrismaClient();
+// Results scoring below this are too far from the query to suggest
+const MIN_SCORE = 0.3;
 
+const MAX_SUGGESTIONS = 20;
+
+export interface AutocompleteResponse {
+  success: boolean;
+  message: string;
+  data?: {
+    drinks: DrinkSuggestion[];
+  };
+  error?: string;
+}
+
+/**
+ * GET /api/drinks/autocomplete
+ *
+ * Suggest drinks for a partly typed name or barcode
+ *
+ * Query params:
+ * - q: string (required) - What the user typed, e.g. "monster ultra", "redbull" or
+ *   some barcode digits
+ *
+ * Every name a drink goes by is scored, including the ones formed from brand and
+ * flavor aliases (see src/lib/drink-aliases.ts), and the best one counts.
+ * Drinks are scored from 0 to 1.1, best first:
+ * - 1.0: the query is the drink's full name, brand or flavor
+ * - 0.9: the full name starts with the query
+ * - 0.85: the flavor starts with the query
+ * - 0.8: a later word of the name starts with the query
+ * - 0.75: the name without spaces starts with the query without spaces
+ * - 0.7: the query's digits are part of one of the drink's barcodes
+ * - up to 0.7: pg_trgm word similarity, for typos ("monstr ultra")
+ * plus up to 0.1 of whole-name similarity, so closer names win ties.
+ *
+ * Each drink carries the character ranges of its brand, flavor and barcode that
+ * the query matched, for highlighting, and the alias name when that matched best.
+ *
+ * Returns:
+ * - 200: Suggestions, at most 20 (none for an empty query)
+ * - 500: Server error
+ */
 export async function GET(request: NextRequest) {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const query = searchParams.get('q') || '';
+    const query = parseDrinkQuery(request.nextUrl.searchParams.get('q') || '');
 
-    if (query.length < 1) {
-      return NextResponse.json({ success: true, data: { drinks: [] } });
+    if (!query.compact) {
+      return NextResponse.json<AutocompleteResponse>(
+        {
+          success: true,
+          message: 'Type a drink name or barcode to get suggestions',
+          data: { drinks: [] },
+        },
+        { status: 200 }
+      );
     }
 
-    // Split query into words for smarter matching
-    const words = query.trim().split(/\s+/);
-
-    let whereCondition: any;
+    const textLike = escapeLike(query.text);
+    const compactLike = escapeLike(query.compact);
 
-    if (words.length === 1) {
-      // Single word: search in brand OR flavor
-      whereCondition = {
-        OR: [
-          {
-            brand: {
-              contains: words[0],
-              mode: 'insensitive',
-            },
-          },
-          {
-            flavor: {
-              contains: words[0],
-              mode: 'insensitive',
-            },
-          },
-        ],
-      };
-    } else {
-      // Multiple words: try brand + flavor matching
-      // e.g., "monster ultra" -> brand contains "monster" AND flavor contains "ultra"
-      const firstWord = words[0];
-      const remainingWords = words.slice(1).join(' ');
-
-      whereCondition = {
-        OR: [
-          // Match: first word in brand AND remaining words in flavor
-          {
-            AND: [
-              {
-                brand: {
-                  contains: firstWord,
-                  mode: 'insensitive',
-                },
-              },
-              {
-                flavor: {
-                  contains: remainingWords,
-                  mode: 'insensitive',
-                },
-              },
-            ],
-          },
-          // Fallback: entire query in brand
-          {
-            brand: {
-              contains: query,
-              mode: 'insensitive',
-            },
-          },
-          // Fallback: entire query in flavor
-          {
-            flavor: {
-              contains: query,
-              mode: 'insensitive',
-            },
-          },
-        ],
-      };
-    }
+    const rows = await sql`
+      WITH candidates AS (
+        SELECT
+          d.id, d.brand, d.flavor, d.size_ml, d.caffeine_mg, d.image_url,
+          -- The drink's barcode, or another of its codes when only that one matches
+          COALESCE(
+            (
+              SELECT b.barcode FROM drink_barcodes b
+              WHERE b.drink_id = d.id AND b.barcode LIKE '%' || ${query.digits}::text || '%'
+              ORDER BY b.barcode = d.barcode DESC, b.barcode
+              LIMIT 1
+            ),
+            d.barcode
+          ) AS barcode,
+          CASE WHEN n.is_alias THEN n.brand || ' ' || n.flavor END AS alias,
+          LOWER(n.brand || ' ' || n.flavor) AS name,
+          LOWER(n.brand) AS brand_name,
+          LOWER(n.flavor) AS flavor_name
+        FROM energy_drinks d
+        JOIN drink_names n ON n.drink_id = d.id
+      ),
+      scored AS (
+        SELECT
+          *,
+          GREATEST(
+            CASE
+              WHEN name = ${query.text} OR brand_name = ${query.text} OR flavor_name = ${query.text} THEN 1.0
+              WHEN name LIKE ${textLike} || '%' THEN 0.9
+              WHEN flavor_name LIKE ${textLike} || '%' THEN 0.85
+              WHEN name LIKE '% ' || ${textLike} || '%' THEN 0.8
+              WHEN regexp_replace(name, '[^[:alnum:]]', '', 'g') LIKE ${compactLike} || '%' THEN 0.75
+              ELSE 0
+            END,
+            CASE WHEN barcode LIKE '%' || ${query.digits}::text || '%' THEN 0.7 ELSE 0 END,
+            word_similarity(${query.text}, name) * 0.7
+          ) + similarity(${query.text}, name) * 0.1 AS score
+        FROM candidates
+      ),
+      best AS (
+        SELECT DISTINCT ON (id) *
+        FROM scored
+        ORDER BY id, score DESC, alias IS NOT NULL
+      )
+      SELECT id, brand, flavor, size_ml, caffeine_mg, image_url, barcode, alias, score::float8 AS score
+      FROM best
+      WHERE score >= ${MIN_SCORE}
+      ORDER BY score DESC, brand, flavor
+      LIMIT ${MAX_SUGGESTIONS}
+    `;
 
-    // Search for drinks matching the query
-    const drinks = await prisma.energy_drinks.findMany({
-      where: whereCondition,
-      select: {
-        id: true,
-        brand: true,
-        flavor: true,
-        size_ml: true,
-        caffeine_mg: true,
-        image_url: true,
+    const drinks: DrinkSuggestion[] = rows.map((row) => ({
+      id: row.id,
+      brand: row.brand,
+      flavor: row.flavor,
+      size_ml: row.size_ml,
+      caffeine_mg: row.caffeine_mg,
+      image_url: row.image_url,
+      barcode: row.barcode,
+      score: Math.round(row.score * 100) / 100,
+      alias: row.alias,
+      highlights: {
+        brand: highlightMatches(row.brand, query.text),
+        flavor: highlightMatches(row.flavor, query.text),
+        barcode: row.barcode && query.digits ? highlightMatches(row.barcode, query.digits) : [],
+        alias: row.alias ? highlightMatches(row.alias, query.text) : [],
       },
-      take: 20, // Increased from 10 to show more results
-      orderBy: [
-        {
-          brand: 'asc',
-        },
-        {
-          flavor: 'asc',
-        },
-      ],
-    });
+    }));
 
-    return NextResponse.json({ success: true, data: { drinks } });
+    return NextResponse.json<AutocompleteResponse>(
+      {
+        success: true,
+        message: `Found ${drinks.length} matching drinks`,
+        data: { drinks },
+      },
+      { status: 200 }
+    );
   } catch (error) {
-    console.error('Autocomplete error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
+    console.error('Autocomplete endpoint error:', error);
+    return NextResponse.json<AutocompleteResponse>(
+      {
+        success: false,
+        message: 'Internal server error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
       { status: 500 }
     );
   }
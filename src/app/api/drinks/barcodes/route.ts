@@ -0,0 +1,217 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { validateBarcode } from '@/lib/barcode';
+import { isPackagingType, PACKAGING_TYPES } from '@/lib/packaging';
+
+const prisma = new PrismaClient();
+
+function parsePackCount(value: unknown): number | null {
+  const packCount = value === undefined || value === '' ? 1 : Number(value);
+  return Number.isInteger(packCount) && packCount >= 1 ? packCount : null;
+}
+
+// GET all barcodes of a drink
+export async function GET(request: NextRequest) {
+  try {
+    const drinkId = request.nextUrl.searchParams.get('drink_id');
+
+    if (!drinkId) {
+      return NextResponse.json(
+        { success: false, error: 'Drink ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const barcodes = await prisma.drink_barcodes.findMany({
+      where: { drink_id: parseInt(drinkId) },
+      orderBy: [{ pack_count: 'asc' }, { id: 'asc' }],
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { barcodes },
+    });
+  } catch (error) {
+    console.error('Error fetching drink barcodes:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch drink barcodes' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add a barcode to a drink; a drink without a main barcode takes it as its main one
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { drink_id, barcode, packaging = 'single', pack_count } = body;
+
+    if (!drink_id || !barcode) {
+      return NextResponse.json(
+        { success: false, error: 'Drink ID and barcode are required' },
+        { status: 400 }
+      );
+    }
+
+    const barcodeResult = validateBarcode(barcode);
+
+    if (!barcodeResult.valid) {
+      return NextResponse.json(
+        { success: false, error: barcodeResult.error },
+        { status: 400 }
+      );
+    }
+
+    if (!isPackagingType(packaging)) {
+      return NextResponse.json(
+        { success: false, error: `Packaging must be one of ${PACKAGING_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const packCount = parsePackCount(pack_count);
+
+    if (packCount === null) {
+      return NextResponse.json(
+        { success: false, error: 'Pack count must be a whole number of at least 1' },
+        { status: 400 }
+      );
+    }
+
+    const drinkId = parseInt(drink_id);
+    const gtin14 = barcodeResult.barcode.gtin14;
+
+    const created = await prisma.drink_barcodes.create({
+      data: { drink_id: drinkId, barcode: gtin14, packaging, pack_count: packCount },
+    });
+
+    await prisma.energy_drinks.updateMany({
+      where: { id: drinkId, barcode: null },
+      data: { barcode: gtin14 },
+    });
+
+    // Resolve the barcode in the pending products queue, if it was captured by the scanner
+    await prisma.pending_products.updateMany({
+      where: { barcode: gtin14, status: 'pending' },
+      data: { status: 'created', drink_id: drinkId, resolved_at: new Date() },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { barcode: created },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json(
+        { success: false, error: 'This barcode already belongs to a drink' },
+        { status: 409 }
+      );
+    }
+
+    console.error('Error creating drink barcode:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create drink barcode' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Update the packaging of a barcode
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { id, packaging, pack_count } = body;
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Barcode ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isPackagingType(packaging)) {
+      return NextResponse.json(
+        { success: false, error: `Packaging must be one of ${PACKAGING_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const packCount = parsePackCount(pack_count);
+
+    if (packCount === null) {
+      return NextResponse.json(
+        { success: false, error: 'Pack count must be a whole number of at least 1' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await prisma.drink_barcodes.update({
+      where: { id: parseInt(id) },
+      data: { packaging, pack_count: packCount },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { barcode: updated },
+    });
+  } catch (error) {
+    console.error('Error updating drink barcode:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update drink barcode' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a barcode; removing the main one promotes the drink's next code
+export async function DELETE(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Barcode ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await prisma.drink_barcodes.delete({
+      where: { id: parseInt(id) },
+    });
+
+    const drink = await prisma.energy_drinks.findUnique({
+      where: { id: deleted.drink_id },
+      select: { barcode: true },
+    });
+
+    let mainBarcode = drink?.barcode ?? null;
+
+    if (mainBarcode === deleted.barcode) {
+      // Single cans first, since that is what gets scanned on the shelf
+      const remaining = await prisma.drink_barcodes.findMany({
+        where: { drink_id: deleted.drink_id },
+        orderBy: [{ pack_count: 'asc' }, { id: 'asc' }],
+      });
+      const next = remaining.find((code) => code.packaging === 'single') ?? remaining[0];
+      mainBarcode = next ? next.barcode : null;
+
+      await prisma.energy_drinks.update({
+        where: { id: deleted.drink_id },
+        data: { barcode: mainBarcode },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Barcode deleted successfully',
+      data: { main_barcode: mainBarcode },
+    });
+  } catch (error) {
+    console.error('Error deleting drink barcode:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete drink barcode' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { sql } from '@/lib/db';
+import { findDuplicateCandidates } from '@/lib/drink-merge';
+import type { DuplicateDrinkCandidate } from '@/types';
+
+export interface DuplicateDrinksResponse {
+  success: boolean;
+  message: string;
+  data?: {
+    candidates: DuplicateDrinkCandidate[];
+  };
+  error?: string;
+}
+
+/**
+ * GET /api/drinks/duplicates
+ *
+ * List pairs of drinks that are probably the same product
+ *
+ * Pairs match on normalized names (aliases included), name similarity or barcodes
+ * for the same product code (see src/lib/drink-merge.ts). Pairs matching for more
+ * reasons come first, then the most similar names. Merge them with POST /api/drinks/merge.
+ *
+ * Returns:
+ * - 200: Duplicate candidates (at most 200)
+ * - 500: Server error
+ */
+export async function GET() {
+  try {
+    const candidates = await findDuplicateCandidates(sql);
+
+    return NextResponse.json<DuplicateDrinksResponse>(
+      {
+        success: true,
+        message: `Found ${candidates.length} possible duplicates`,
+        data: { candidates },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Duplicate drinks endpoint error:', error);
+    return NextResponse.json<DuplicateDrinksResponse>(
+      {
+        success: false,
+        message: 'Internal server error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
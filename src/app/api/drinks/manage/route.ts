@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { validateBarcode } from '@/lib/barcode';
+import { sql } from '@/lib/db';
+import { findDuplicateDrink, resolveDrinkName } from '@/lib/drink-aliases';
+import { parseDrinkDetails } from '@/lib/drink-details';
 
 const prisma = new PrismaClient();
 
@@ -38,11 +42,11 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST - Create new drink
+// POST - Create new drink, saved under the canonical brand and flavor when given aliases
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { brand, flavor, size_ml, caffeine_mg, barcode } = body;
+    const { brand, flavor, size_ml, barcode } = body;
 
     // Validation
     if (!brand || !flavor || !size_ml) {
@@ -52,16 +56,60 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const barcodeResult = barcode ? validateBarcode(barcode) : null;
+
+    if (barcodeResult && !barcodeResult.valid) {
+      return NextResponse.json(
+        { success: false, error: barcodeResult.error },
+        { status: 400 }
+      );
+    }
+
+    const detailsResult = parseDrinkDetails(body);
+
+    if (!detailsResult.valid) {
+      return NextResponse.json(
+        { success: false, error: detailsResult.error },
+        { status: 400 }
+      );
+    }
+
+    const name = await resolveDrinkName(sql, { brand: brand.trim(), flavor: flavor.trim() });
+    const sizeMl = parseInt(size_ml);
+
+    const existing = await findDuplicateDrink(sql, {
+      ...name,
+      size_ml: sizeMl,
+      barcode: barcodeResult ? barcodeResult.barcode.gtin14 : null,
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `${existing.brand} ${existing.flavor} (${existing.size_ml}ml) already exists`,
+        },
+        { status: 409 }
+      );
+    }
+
     const drink = await prisma.energy_drinks.create({
       data: {
-        brand,
-        flavor,
-        size_ml: parseInt(size_ml),
-        caffeine_mg: caffeine_mg ? parseInt(caffeine_mg) : null,
-        barcode: barcode || null,
+        ...name,
+        ...detailsResult.details,
+        size_ml: sizeMl,
+        barcode: barcodeResult ? barcodeResult.barcode.gtin14 : null,
       },
     });
 
+    // Resolve the barcode in the pending products queue, if it was captured by the scanner
+    if (drink.barcode) {
+      await prisma.pending_products.updateMany({
+        where: { barcode: drink.barcode, status: 'pending' },
+        data: { status: 'created', drink_id: drink.id, resolved_at: new Date() },
+      });
+    }
+
     return NextResponse.json({
       success: true,
       data: { drink },
@@ -75,27 +123,76 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// PUT - Update drink
-export async function PUT(request: NextRequest) {
+// PATCH - Update the fields given and leave the rest; its previous main barcode stays in its barcode list
+export async function PATCH(request: NextRequest) {
   try {
     const body = await request.json();
-    const { id, brand, flavor, size_ml, caffeine_mg, barcode } = body;
+    const { brand, flavor, size_ml, barcode } = body;
+    const id = parseInt(body.id);
 
-    if (!id) {
+    if (isNaN(id)) {
       return NextResponse.json(
         { success: false, error: 'Drink ID is required' },
         { status: 400 }
       );
     }
 
+    if ((brand !== undefined && !String(brand).trim()) || (flavor !== undefined && !String(flavor).trim())) {
+      return NextResponse.json(
+        { success: false, error: 'Brand and flavor cannot be empty' },
+        { status: 400 }
+      );
+    }
+
+    const sizeMl = size_ml !== undefined ? Number(size_ml) : undefined;
+
+    if (sizeMl !== undefined && (!Number.isInteger(sizeMl) || sizeMl <= 0)) {
+      return NextResponse.json(
+        { success: false, error: 'Size must be a whole number of ml' },
+        { status: 400 }
+      );
+    }
+
+    const detailsResult = parseDrinkDetails(body);
+
+    if (!detailsResult.valid) {
+      return NextResponse.json(
+        { success: false, error: detailsResult.error },
+        { status: 400 }
+      );
+    }
+
+    const barcodeResult = barcode ? validateBarcode(barcode) : null;
+
+    if (barcodeResult && !barcodeResult.valid) {
+      return NextResponse.json(
+        { success: false, error: barcodeResult.error },
+        { status: 400 }
+      );
+    }
+
+    if (barcodeResult) {
+      const owner = await prisma.drink_barcodes.findUnique({
+        where: { barcode: barcodeResult.barcode.gtin14 },
+      });
+
+      if (owner && owner.drink_id !== id) {
+        return NextResponse.json(
+          { success: false, error: 'This barcode already belongs to another drink' },
+          { status: 409 }
+        );
+      }
+    }
+
     const drink = await prisma.energy_drinks.update({
-      where: { id: parseInt(id) },
+      where: { id },
       data: {
-        brand,
-        flavor,
-        size_ml: parseInt(size_ml),
-        caffeine_mg: caffeine_mg ? parseInt(caffeine_mg) : null,
-        barcode: barcode || null,
+        ...detailsResult.details,
+        brand: brand === undefined ? undefined : String(brand).trim(),
+        flavor: flavor === undefined ? undefined : String(flavor).trim(),
+        size_ml: sizeMl,
+        // An empty barcode clears it, a missing one leaves it
+        barcode: barcode === undefined ? undefined : barcodeResult ? barcodeResult.barcode.gtin14 : null,
       },
     });
 
@@ -104,6 +201,20 @@ export async function PUT(request: NextRequest) {
       data: { drink },
     });
   } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json(
+        { success: false, error: 'A drink with this brand, flavor and size already exists' },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      return NextResponse.json(
+        { success: false, error: 'Drink not found' },
+        { status: 404 }
+      );
+    }
+
     console.error('Error updating drink:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to update drink' },
@@ -112,6 +223,9 @@ export async function PUT(request: NextRequest) {
   }
 }
 
+// PUT - Same as PATCH; fields left out are not cleared
+export const PUT = PATCH;
+
 // DELETE - Delete drink
 export async function DELETE(request: NextRequest) {
   try {
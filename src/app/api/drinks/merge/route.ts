@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sql } from '@/lib/db';
+import { mergeDrinks, type DrinkMergeResult } from '@/lib/drink-merge';
+
+export interface DrinkMergeRequest {
+  keep_id: number;
+  merge_id: number;
+}
+
+export interface DrinkMergeResponse {
+  success: boolean;
+  message: string;
+  data?: DrinkMergeResult;
+  error?: string;
+}
+
+/**
+ * POST /api/drinks/merge
+ *
+ * Merge a duplicate drink into another one
+ *
+ * In one transaction the merged drink's store inventory is moved to the kept drink
+ * (where a store lists both, the more recently updated row wins), along with its
+ * price history and pending barcodes. Its barcode and nutrition facts fill in what
+ * the kept drink is missing, then it is deleted (see src/lib/drink-merge.ts).
+ *
+ * Request body:
+ * - keep_id: number (required) - Drink to keep
+ * - merge_id: number (required) - Drink to merge into it and delete
+ *
+ * Returns:
+ * - 200: Drinks merged
+ * - 400: Missing or invalid ids, or the same id twice
+ * - 404: Either drink not found
+ * - 500: Server error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: DrinkMergeRequest = await request.json();
+
+    if (!Number.isInteger(body.keep_id) || !Number.isInteger(body.merge_id)) {
+      return NextResponse.json<DrinkMergeResponse>(
+        {
+          success: false,
+          message: 'keep_id and merge_id are required and must be numbers',
+          error: 'Missing or invalid drink ids',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body.keep_id === body.merge_id) {
+      return NextResponse.json<DrinkMergeResponse>(
+        {
+          success: false,
+          message: 'A drink cannot be merged into itself',
+          error: 'Invalid drink ids',
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await mergeDrinks(sql, body.keep_id, body.merge_id);
+
+    if (!result) {
+      return NextResponse.json<DrinkMergeResponse>(
+        {
+          success: false,
+          message: 'Drink not found',
+          error: `No drink with id ${body.keep_id} or ${body.merge_id}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<DrinkMergeResponse>(
+      {
+        success: true,
+        message: `Merged drink ${body.merge_id} into ${result.drink.brand} ${result.drink.flavor}`,
+        data: result,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Drink merge endpoint error:', error);
+    return NextResponse.json<DrinkMergeResponse>(
+      {
+        success: false,
+        message: 'Internal server error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
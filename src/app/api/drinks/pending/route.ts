@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma, PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// GET pending (unknown) barcodes captured by the scanner
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get('status') || 'pending';
+
+    const pending = await prisma.pending_products.findMany({
+      where: { status },
+      include: {
+        stores: {
+          select: { id: true, name: true, city: true, state: true },
+        },
+      },
+      orderBy: { last_seen_at: 'desc' },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { pending },
+    });
+  } catch (error) {
+    console.error('Error fetching pending products:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch pending products' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Dismiss a pending barcode
+export async function DELETE(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const id = parseInt(searchParams.get('id') || '');
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Pending product ID is required' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.pending_products.update({
+      where: { id },
+      data: {
+        status: 'dismissed',
+        resolved_at: new Date(),
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Pending product dismissed',
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      return NextResponse.json(
+        { success: false, error: 'Pending product not found' },
+        { status: 404 }
+      );
+    }
+
+    console.error('Error dismissing pending product:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to dismiss pending product' },
+      { status: 500 }
+    );
+  }
+}
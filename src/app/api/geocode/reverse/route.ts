@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { reverseGeocode, type ReverseGeocodeResult } from '@/lib/geocode';
+
+interface ReverseGeocodeResponse {
+  success: boolean;
+  message?: string;
+  data?: ReverseGeocodeResult;
+  error?: string;
+}
+
+/**
+ * GET /api/geocode/reverse
+ *
+ * Convert coordinates to a structured address using the configured
+ * geocoding provider (GEOCODING_PROVIDER: maps-co, nominatim or fixture)
+ *
+ * Query parameters:
+ * - latitude: number (required) - Latitude (-90 to 90)
+ * - longitude: number (required) - Longitude (-180 to 180)
+ *
+ * Example: /api/geocode/reverse?latitude=40.7551&longitude=-73.9787
+ *
+ * Returns:
+ * - 200: Address found
+ *   {
+ *     "success": true,
+ *     "data": {
+ *       "latitude": 40.7551,
+ *       "longitude": -73.9787,
+ *       "display_name": "555 5th Avenue, Manhattan, New York, NY 10017, USA",
+ *       "address": {
+ *         "house_number": "555",
+ *         "street": "5th Avenue",
+ *         "address": "555 5th Avenue",
+ *         "city": "New York",
+ *         "state": "NY",
+ *         "zip_code": "10017",
+ *         "country": "US"
+ *       }
+ *     }
+ *   }
+ * - 400: Invalid request (missing or out-of-range coordinates)
+ * - 404: No address at this location
+ * - 500: Server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const latitude = parseFloat(searchParams.get('latitude') || '');
+    const longitude = parseFloat(searchParams.get('longitude') || '');
+
+    if (isNaN(latitude) || isNaN(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      return NextResponse.json<ReverseGeocodeResponse>(
+        {
+          success: false,
+          message: 'Valid latitude (-90 to 90) and longitude (-180 to 180) are required',
+          error: 'Missing or invalid location parameters',
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await reverseGeocode(latitude, longitude);
+
+    return NextResponse.json<ReverseGeocodeResponse>(
+      {
+        success: true,
+        message: 'Location successfully reverse geocoded',
+        data: result,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Reverse geocode endpoint error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const isNotFound = errorMessage.toLowerCase().includes('no results found');
+
+    return NextResponse.json<ReverseGeocodeResponse>(
+      {
+        success: false,
+        message: isNotFound ? 'No address found at this location' : 'Reverse geocoding failed',
+        error: errorMessage,
+      },
+      { status: isNotFound ? 404 : 500 }
+    );
+  }
+}
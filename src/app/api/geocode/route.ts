@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { geocodeAddress, type AddressComponents, type GeocodeResult } from '@/lib/geocode';
+import { sql } from '@/lib/db';
+import { geocodeAddress, getGeocodingProvider, type AddressComponents, type GeocodeResult } from '@/lib/geocode';
+import { createDatabaseGeocodeCache, withGeocodeCache, type GeocodeCacheStats } from '@/lib/geocoding';
 
 /**
  * POST /api/geocode
  *
- * Convert an address to coordinates (latitude, longitude) using geocode.maps.co API
+ * Convert an address to coordinates (latitude, longitude) using the configured
+ * geocoding provider (GEOCODING_PROVIDER: maps-co, nominatim or fixture).
+ * Results (including "not found") are served from the geocode_cache table when available.
  *
  * Request body (two formats supported):
  * 1. Full address string:
@@ -28,7 +32,8 @@ import { geocodeAddress, type AddressComponents, type GeocodeResult } from '@/li
  *       "longitude": -73.9787,
  *       "display_name": "555 5th Avenue, Manhattan, New York, NY 10017, USA",
  *       "boundingbox": ["40.7541", "40.7561", "-73.9797", "-73.9777"]
- *     }
+ *     },
+ *     "cache": { "hits": 1, "misses": 0 }
  *   }
  * - 400: Invalid request (missing address)
  * - 404: Address not found
@@ -47,11 +52,17 @@ interface GeocodeResponse {
   success: boolean;
   message?: string;
   data?: GeocodeResult;
+  cache?: GeocodeCacheStats;
   error?: string;
 }
 
 export async function POST(request: NextRequest) {
+  // Per-request hit/miss stats, reported on errors too
+  const cache = createDatabaseGeocodeCache(sql);
+
   try {
+    // A misconfigured provider (e.g. a missing API key) throws here
+    const provider = withGeocodeCache(getGeocodingProvider(), cache);
     const body: GeocodeRequest = await request.json();
 
     // Validate that we have either a full address or at least some components
@@ -87,13 +98,14 @@ export async function POST(request: NextRequest) {
     }
 
     // Call geocoding utility
-    const result = await geocodeAddress(addressInput);
+    const result = await geocodeAddress(addressInput, provider);
 
     return NextResponse.json<GeocodeResponse>(
       {
         success: true,
         message: 'Address successfully geocoded',
         data: result,
+        cache: cache.stats,
       },
       { status: 200 }
     );
@@ -108,6 +120,7 @@ export async function POST(request: NextRequest) {
       {
         success: false,
         message: isNotFound ? 'Address not found' : 'Geocoding failed',
+        cache: cache.stats,
         error: errorMessage,
       },
       { status: isNotFound ? 404 : 500 }
@@ -132,7 +145,12 @@ export async function POST(request: NextRequest) {
  * Returns same format as POST endpoint
  */
 export async function GET(request: NextRequest) {
+  // Per-request hit/miss stats, reported on errors too
+  const cache = createDatabaseGeocodeCache(sql);
+
   try {
+    // A misconfigured provider (e.g. a missing API key) throws here
+    const provider = withGeocodeCache(getGeocodingProvider(), cache);
     const { searchParams } = new URL(request.url);
 
     const fullAddress = searchParams.get('q') || searchParams.get('address');
@@ -171,13 +189,14 @@ export async function GET(request: NextRequest) {
     }
 
     // Call geocoding utility
-    const result = await geocodeAddress(addressInput);
+    const result = await geocodeAddress(addressInput, provider);
 
     return NextResponse.json<GeocodeResponse>(
       {
         success: true,
         message: 'Address successfully geocoded',
         data: result,
+        cache: cache.stats,
       },
       { status: 200 }
     );
@@ -191,6 +210,7 @@ export async function GET(request: NextRequest) {
       {
         success: false,
         message: isNotFound ? 'Address not found' : 'Geocoding failed',
+        cache: cache.stats,
         error: errorMessage,
       },
       { status: isNotFound ? 404 : 500 }
@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sql } from '@/lib/db';
+import type { PriceObservation, StorePriceSummary } from '@/types';
+
+export interface PriceHistoryResponse {
+  success: boolean;
+  message: string;
+  data?: {
+    drink_id: number;
+    store_id?: number;
+    observations: Array<PriceObservation & { store_name: string }>;
+    stores: StorePriceSummary[];
+  };
+  error?: string;
+}
+
+/**
+ * GET /api/price-history
+ *
+ * Get the price timeline for a drink, either at one store or across all stores
+ *
+ * Query params:
+ * - drink_id: number (required) - ID of the energy drink
+ * - store_id: number (optional) - Limit the timeline to a single store
+ * - since: string (optional) - ISO date; only return observations after this time
+ * - limit: number (optional, default: 500) - Maximum number of observations to return;
+ *   the newest ones are kept
+ *
+ * Observations are returned oldest first. Out-of-stock reports are observations
+ * too, with in_stock: false, and a null price when the store didn't list the
+ * drink. `stores` summarizes each store's first, latest, lowest and highest
+ * observed price and how often the drink was found out of stock, over all
+ * observations since `since` rather than only the ones returned.
+ *
+ * Returns:
+ * - 200: Successfully retrieved price history
+ * - 400: Invalid request (missing/invalid drink_id, invalid store_id, since or limit)
+ * - 500: Server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const drinkId = parseInt(searchParams.get('drink_id') || '');
+    const storeIdParam = searchParams.get('store_id');
+    const sinceParam = searchParams.get('since');
+    const limit = parseInt(searchParams.get('limit') || '500'); // default 500 observations
+
+    if (isNaN(drinkId)) {
+      return NextResponse.json<PriceHistoryResponse>(
+        {
+          success: false,
+          message: 'drink_id is required',
+          error: 'Missing or invalid drink_id parameter',
+        },
+        { status: 400 }
+      );
+    }
+
+    const storeId = storeIdParam ? parseInt(storeIdParam) : null;
+
+    if (storeIdParam && (storeId === null || isNaN(storeId))) {
+      return NextResponse.json<PriceHistoryResponse>(
+        {
+          success: false,
+          message: 'store_id must be a number',
+          error: 'Invalid store_id parameter',
+        },
+        { status: 400 }
+      );
+    }
+
+    const since = sinceParam ? new Date(sinceParam) : null;
+
+    if (since && isNaN(since.getTime())) {
+      return NextResponse.json<PriceHistoryResponse>(
+        {
+          success: false,
+          message: 'since must be an ISO date',
+          error: 'Invalid since parameter',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(limit) || limit <= 0) {
+      return NextResponse.json<PriceHistoryResponse>(
+        {
+          success: false,
+          message: 'limit must be a positive number',
+          error: 'Invalid limit parameter',
+        },
+        { status: 400 }
+      );
+    }
+
+    const sinceIso = since ? since.toISOString() : null;
+
+    // The newest observations up to the limit, returned oldest first
+    const rows = await sql`
+      SELECT *
+      FROM (
+        SELECT
+          ph.id, ph.store_id, ph.drink_id, ph.price, ph.in_stock, ph.observed_at,
+          s.name as store_name
+        FROM price_history ph
+        JOIN stores s ON s.id = ph.store_id
+        WHERE ph.drink_id = ${drinkId}
+        AND (${storeId}::int IS NULL OR ph.store_id = ${storeId})
+        AND (${sinceIso}::timestamptz IS NULL OR ph.observed_at >= ${sinceIso})
+        ORDER BY ph.observed_at DESC, ph.id DESC
+        LIMIT ${limit}
+      ) newest
+      ORDER BY observed_at ASC, id ASC
+    `;
+
+    const observations = rows.map((row) => ({
+      store_id: row.store_id,
+      store_name: row.store_name,
+      drink_id: row.drink_id,
+      price: row.price === null ? null : parseFloat(row.price),
+      in_stock: row.in_stock ?? true,
+      observed_at: row.observed_at,
+    })) as Array<PriceObservation & { store_name: string }>;
+
+    // Summarize each store over all of its observations, not just the ones returned.
+    // Reports without a price count as observations but not towards the prices.
+    const summaryRows = await sql`
+      SELECT
+        ph.store_id,
+        s.name as store_name,
+        (array_agg(ph.price ORDER BY ph.observed_at ASC, ph.id ASC) FILTER (WHERE ph.price IS NOT NULL))[1] as first_price,
+        (array_agg(ph.price ORDER BY ph.observed_at DESC, ph.id DESC) FILTER (WHERE ph.price IS NOT NULL))[1] as latest_price,
+        MIN(ph.price) as min_price,
+        MAX(ph.price) as max_price,
+        COUNT(*)::int as observations,
+        COUNT(*) FILTER (WHERE ph.in_stock = false)::int as out_of_stock_observations
+      FROM price_history ph
+      JOIN stores s ON s.id = ph.store_id
+      WHERE ph.drink_id = ${drinkId}
+      AND (${storeId}::int IS NULL OR ph.store_id = ${storeId})
+      AND (${sinceIso}::timestamptz IS NULL OR ph.observed_at >= ${sinceIso})
+      GROUP BY ph.store_id, s.name
+      ORDER BY latest_price ASC NULLS LAST
+    `;
+
+    const toPrice = (value: string | null) => (value === null ? null : parseFloat(value));
+
+    // Cheapest first; stores without a price last
+    const stores: StorePriceSummary[] = summaryRows.map((row) => ({
+      store_id: row.store_id,
+      store_name: row.store_name,
+      first_price: toPrice(row.first_price),
+      latest_price: toPrice(row.latest_price),
+      min_price: toPrice(row.min_price),
+      max_price: toPrice(row.max_price),
+      observations: row.observations,
+      out_of_stock_observations: row.out_of_stock_observations,
+    }));
+
+    return NextResponse.json<PriceHistoryResponse>(
+      {
+        success: true,
+        message: `Found ${observations.length} price observations across ${stores.length} stores`,
+        data: {
+          drink_id: drinkId,
+          ...(storeId !== null && { store_id: storeId }),
+          observations,
+          stores,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Price history endpoint error:', error);
+    return NextResponse.json<PriceHistoryResponse>(
+      {
+        success: false,
+        message: 'Internal server error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
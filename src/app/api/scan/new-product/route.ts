@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sql } from '@/lib/db';
+import { validateBarcode } from '@/lib/barcode';
+import { findDuplicateDrink, resolveDrinkName } from '@/lib/drink-aliases';
+import type { EnergyDrink, NewProductRequest, StoreInventory } from '@/types';
+
+export interface NewProductResponse {
+  success: boolean;
+  message: string;
+  data?: {
+    drink: EnergyDrink;
+    inventory: StoreInventory | null;
+  };
+  error?: string;
+}
+
+/**
+ * POST /api/scan/new-product
+ *
+ * Create an energy drink for a barcode that wasn't found by /api/scan and
+ * optionally attach it to a store in the same statement.
+ *
+ * Request body:
+ * - barcode: string (required) - UPC-A, EAN-13, EAN-8 or GTIN-14 barcode that was scanned
+ * - brand: string (required)
+ * - flavor: string (required)
+ * - size_ml: number (required)
+ * - caffeine_mg, sugar_g, calories: number (optional) - Nutrition facts
+ * - store_id: number (optional) - Store to add the new drink to
+ * - price: number (required with store_id) - Price at that store
+ *
+ * Brand and flavor aliases are replaced with their canonical names before saving
+ * (see src/lib/drink-aliases.ts). The matching pending_products row (if any) is
+ * marked as created.
+ *
+ * Returns:
+ * - 200: Drink created (and added to the store inventory when store_id is given)
+ * - 400: Invalid request (missing required fields, invalid barcode, store_id or price)
+ * - 404: Store not found
+ * - 409: A drink with this barcode or brand/flavor/size (under any alias) already exists
+ * - 500: Server error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: NewProductRequest = await request.json();
+
+    const sizeMl = Number(body.size_ml);
+
+    if (!body.barcode || !body.brand?.trim() || !body.flavor?.trim() || !sizeMl || sizeMl <= 0) {
+      return NextResponse.json<NewProductResponse>(
+        {
+          success: false,
+          message: 'Barcode, brand, flavor, and size are required',
+          error: 'Missing required fields',
+        },
+        { status: 400 }
+      );
+    }
+
+    const barcodeResult = validateBarcode(body.barcode);
+
+    if (!barcodeResult.valid) {
+      return NextResponse.json<NewProductResponse>(
+        {
+          success: false,
+          message: barcodeResult.error,
+          error: 'Invalid barcode',
+        },
+        { status: 400 }
+      );
+    }
+
+    const barcode = barcodeResult.barcode.gtin14;
+    const { brand, flavor } = await resolveDrinkName(sql, {
+      brand: body.brand.trim(),
+      flavor: body.flavor.trim(),
+    });
+    const caffeineMg = body.caffeine_mg ? Number(body.caffeine_mg) : null;
+    const sugarG = body.sugar_g !== undefined && body.sugar_g !== null ? Number(body.sugar_g) : null;
+    const calories = body.calories !== undefined && body.calories !== null ? Number(body.calories) : null;
+    const storeId = body.store_id ? Number(body.store_id) : null;
+    const price = Number(body.price);
+
+    if (storeId !== null && !Number.isInteger(storeId)) {
+      return NextResponse.json<NewProductResponse>(
+        {
+          success: false,
+          message: 'store_id must be a number',
+          error: 'Invalid store_id field',
+        },
+        { status: 400 }
+      );
+    }
+
+    // A drink is only added to a store with the price it sells for there
+    if (storeId !== null && (!Number.isFinite(price) || price <= 0)) {
+      return NextResponse.json<NewProductResponse>(
+        {
+          success: false,
+          message: 'A price greater than 0 is required when adding the drink to a store',
+          error: 'Missing or invalid price field',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (storeId !== null) {
+      const storeResult = await sql`SELECT id FROM stores WHERE id = ${storeId} LIMIT 1`;
+
+      if (storeResult.length === 0) {
+        return NextResponse.json<NewProductResponse>(
+          {
+            success: false,
+            message: `Store with ID ${storeId} not found`,
+            error: 'Store not found',
+          },
+          { status: 404 }
+        );
+      }
+    }
+
+    // Refuse to create a second row for the same product
+    const existing = await findDuplicateDrink(sql, { brand, flavor, size_ml: sizeMl, barcode });
+
+    if (existing) {
+      return NextResponse.json<NewProductResponse>(
+        {
+          success: false,
+          message: `${existing.brand} ${existing.flavor} (${existing.size_ml}ml) already exists`,
+          error: 'Drink already exists',
+        },
+        { status: 409 }
+      );
+    }
+
+    // Create the drink, attach it to the store and resolve the pending barcode in one statement
+    const result = await sql`
+      WITH new_drink AS (
+        INSERT INTO energy_drinks (brand, flavor, size_ml, caffeine_mg, sugar_g, calories, barcode)
+        VALUES (${brand}, ${flavor}, ${sizeMl}, ${caffeineMg}, ${sugarG}, ${calories}, ${barcode})
+        RETURNING id, brand, flavor, size_ml, caffeine_mg, barcode, sugar_g, calories, description, image_url
+      ),
+      inventory AS (
+        INSERT INTO store_inventory (store_id, drink_id, price, in_stock)
+        SELECT ${storeId}::int, id, ${storeId !== null ? price : null}::numeric, true
+        FROM new_drink
+        WHERE ${storeId}::int IS NOT NULL
+        RETURNING id, store_id, drink_id, price, in_stock, last_updated
+      ),
+      resolved AS (
+        UPDATE pending_products
+        SET status = 'created', drink_id = (SELECT id FROM new_drink), resolved_at = CURRENT_TIMESTAMP
+        WHERE barcode = ${barcode}
+      )
+      SELECT
+        row_to_json(new_drink.*) as drink,
+        (SELECT row_to_json(inventory.*) FROM inventory) as inventory
+      FROM new_drink
+    `;
+
+    const drink = result[0].drink as EnergyDrink;
+    const inventory = result[0].inventory as StoreInventory | null;
+
+    return NextResponse.json<NewProductResponse>(
+      {
+        success: true,
+        message: inventory
+          ? `Created ${drink.brand} ${drink.flavor} and added it to the store`
+          : `Created ${drink.brand} ${drink.flavor}`,
+        data: { drink, inventory },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('New product endpoint error:', error);
+    return NextResponse.json<NewProductResponse>(
+      {
+        success: false,
+        message: 'Internal server error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { sql } from '@/lib/db';
-import type { ScanRequest, ScanResponse, EnergyDrink, Store, StoreInventory } from '@/types';
+import { validateBarcode } from '@/lib/barcode';
+import { reportStock } from '@/lib/stock-reports';
+import type { ScanRequest, ScanResponse, DrinkBarcode, EnergyDrink, Store, StoreInventory } from '@/types';
 
 /**
  * POST /api/scan
@@ -8,17 +10,24 @@ import type { ScanRequest, ScanResponse, EnergyDrink, Store, StoreInventory } fr
  * Scan a barcode and mark an energy drink as available at a store.
  *
  * Request body:
- * - barcode: string (required) - UPC/EAN barcode of the energy drink
+ * - barcode: string (required) - UPC-A, EAN-13, EAN-8 or GTIN-14 barcode of the energy drink;
+ *   any of a drink's barcodes (single can, multipack, promo printing, ...) matches
  * - store_id: number (optional) - ID of the store, if known
  * - latitude: number (optional) - User's latitude (used to find nearest store if no store_id)
  * - longitude: number (optional) - User's longitude
- * - price: number (optional) - Price of the drink at this store
+ * - price: number (optional) - Price of the drink at this store; required to list a
+ *   drink the store doesn't have yet, and the stored price is kept when left out
  * - in_stock: boolean (optional, default: true) - Whether the drink is in stock
  *
+ * Scanning a drink puts it in stock right away. Reporting it out of stock
+ * (in_stock: false) is recorded as a stock report instead, which only flips
+ * availability once enough reports agree (see src/lib/stock-reports.ts); the
+ * price is left unchanged.
+ *
  * Returns:
  * - 200: Successfully added/updated inventory
- * - 400: Invalid request (missing barcode, invalid data)
- * - 404: Barcode not found in database
+ * - 400: Invalid request (missing or invalid barcode, invalid price or data)
+ * - 404: Barcode not found in database (the barcode is queued in pending_products)
  * - 500: Server error
  */
 export async function POST(request: NextRequest) {
@@ -37,6 +46,35 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validate the check digit and normalize to GTIN-14 for lookup
+    const barcodeResult = validateBarcode(body.barcode);
+
+    if (!barcodeResult.valid) {
+      return NextResponse.json<ScanResponse>(
+        {
+          success: false,
+          message: barcodeResult.error,
+          error: 'Invalid barcode',
+        },
+        { status: 400 }
+      );
+    }
+
+    const barcode = barcodeResult.barcode.gtin14;
+
+    const price = body.price !== undefined && body.price !== null ? Number(body.price) : null;
+
+    if (price !== null && (!Number.isFinite(price) || price <= 0)) {
+      return NextResponse.json<ScanResponse>(
+        {
+          success: false,
+          message: 'price must be a number greater than 0',
+          error: 'Invalid price field',
+        },
+        { status: 400 }
+      );
+    }
+
     // Validate store identification
     if (!body.store_id && (!body.latitude || !body.longitude)) {
       return NextResponse.json<ScanResponse>(
@@ -49,26 +87,51 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Look up the energy drink by barcode
+    // Look up the energy drink by any of its barcodes
     const drinkResult = await sql`
-      SELECT id, brand, flavor, size_ml, caffeine_mg, barcode, sugar_g, calories, description, image_url
-      FROM energy_drinks
-      WHERE barcode = ${body.barcode}
+      SELECT
+        d.id, d.brand, d.flavor, d.size_ml, d.caffeine_mg, d.barcode, d.sugar_g, d.calories,
+        d.description, d.image_url,
+        json_build_object(
+          'id', b.id, 'drink_id', b.drink_id, 'barcode', b.barcode,
+          'packaging', b.packaging, 'pack_count', b.pack_count
+        ) as scanned_barcode
+      FROM drink_barcodes b
+      JOIN energy_drinks d ON d.id = b.drink_id
+      WHERE b.barcode = ${barcode}
       LIMIT 1
     `;
 
     if (drinkResult.length === 0) {
+      // Queue the unknown barcode so it can be created from the scanner or reviewed by an admin.
+      // An unknown store_id is stored as NULL rather than failing the scan.
+      const pendingStoreId = Number.isInteger(body.store_id) ? body.store_id : null;
+      const pendingResult = await sql`
+        INSERT INTO pending_products (barcode, store_id)
+        VALUES (${barcode}, (SELECT id FROM stores WHERE id = ${pendingStoreId}::int))
+        ON CONFLICT (barcode)
+        DO UPDATE SET
+          scan_count = pending_products.scan_count + 1,
+          store_id = COALESCE(EXCLUDED.store_id, pending_products.store_id),
+          status = CASE WHEN pending_products.status = 'created' THEN 'pending' ELSE pending_products.status END,
+          last_seen_at = CURRENT_TIMESTAMP
+        RETURNING id
+      `;
+
       return NextResponse.json<ScanResponse>(
         {
           success: false,
-          message: `No energy drink found with barcode ${body.barcode}`,
+          message: `No energy drink found with barcode ${barcode}`,
+          pending_product_id: pendingResult[0]?.id,
           error: 'Drink not found',
         },
         { status: 404 }
       );
     }
 
-    const drink = drinkResult[0] as EnergyDrink;
+    const { scanned_barcode: scannedBarcode, ...drink } = drinkResult[0] as EnergyDrink & {
+      scanned_barcode: DrinkBarcode;
+    };
 
     // Get or find the store
     let store: Store;
@@ -128,26 +191,81 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Prepare inventory data
-    const price = body.price || 0;
-    const inStock = body.in_stock !== undefined ? body.in_stock : true;
-
-    // Upsert inventory record (insert or update if exists)
-    const inventoryResult = await sql`
-      INSERT INTO store_inventory (store_id, drink_id, price, in_stock)
-      VALUES (${store.id}, ${drink.id}, ${price}, ${inStock})
-      ON CONFLICT (store_id, drink_id)
-      DO UPDATE SET
-        price = EXCLUDED.price,
-        in_stock = EXCLUDED.in_stock,
-        last_updated = CURRENT_TIMESTAMP
-      RETURNING id, store_id, drink_id, price, in_stock, last_updated
-    `;
+    if (body.in_stock === false) {
+      const stockReport = await reportStock(sql, store.id, drink.id, false);
+
+      const reportedInventory = await sql`
+        SELECT id, store_id, drink_id, price, in_stock, last_updated
+        FROM store_inventory
+        WHERE store_id = ${store.id} AND drink_id = ${drink.id}
+      `;
+
+      // The store may not list the drink, in which case the report was only logged
+      const inventory = reportedInventory.length > 0 ? (reportedInventory[0] as StoreInventory) : null;
+
+      return NextResponse.json<ScanResponse>(
+        {
+          success: true,
+          message: !stockReport.listed
+            ? `${drink.brand} ${drink.flavor} isn't listed at ${store.name}; noted that it's out of stock`
+            : !stockReport.in_stock
+              ? `Marked ${drink.brand} ${drink.flavor} out of stock at ${store.name}`
+              : `Reported ${drink.brand} ${drink.flavor} out of stock at ${store.name} ` +
+                `(${stockReport.agreeing_reports} of ${stockReport.reports_to_flip} days of reports needed)`,
+          data: {
+            drink,
+            store,
+            inventory,
+            was_created: false,
+            scanned_barcode: scannedBarcode,
+            stock_report: stockReport,
+          },
+        },
+        { status: 200 }
+      );
+    }
 
-    const inventory = inventoryResult[0] as StoreInventory;
+    // A scan without a price keeps the stored one
+    const inventoryResult =
+      price !== null
+        ? await sql`
+            INSERT INTO store_inventory (store_id, drink_id, price, in_stock)
+            VALUES (${store.id}, ${drink.id}, ${price}, true)
+            ON CONFLICT (store_id, drink_id)
+            DO UPDATE SET
+              price = COALESCE(EXCLUDED.price, store_inventory.price),
+              in_stock = EXCLUDED.in_stock,
+              last_updated = CURRENT_TIMESTAMP
+            RETURNING id, store_id, drink_id, price, in_stock, last_updated, (xmax = 0) as was_created
+          `
+        : await sql`
+            UPDATE store_inventory
+            SET in_stock = true, last_updated = CURRENT_TIMESTAMP
+            WHERE store_id = ${store.id} AND drink_id = ${drink.id}
+            RETURNING id, store_id, drink_id, price, in_stock, last_updated, false as was_created
+          `;
+
+    // Without a price there is nothing to list a drink the store doesn't have yet
+    if (inventoryResult.length === 0) {
+      return NextResponse.json<ScanResponse>(
+        {
+          success: true,
+          message: `Found ${drink.brand} ${drink.flavor}; add its price to list it at ${store.name}`,
+          data: {
+            drink,
+            store,
+            inventory: null,
+            was_created: false,
+            scanned_barcode: scannedBarcode,
+          },
+        },
+        { status: 200 }
+      );
+    }
 
-    // Determine if this was a new record or an update
-    const wasCreated = inventoryResult.length > 0;
+    const { was_created: wasCreated, ...inventory } = inventoryResult[0] as StoreInventory & {
+      was_created: boolean;
+    };
 
     return NextResponse.json<ScanResponse>(
       {
@@ -160,6 +278,7 @@ export async function POST(request: NextRequest) {
           store,
           inventory,
           was_created: wasCreated,
+          scanned_barcode: scannedBarcode,
         },
       },
       { status: 200 }
@@ -1,44 +1,246 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { sql } from '@/lib/db';
-import type { SearchResult } from '@/types';
+import { parseMinConfidence, withConfidence } from '@/lib/confidence';
+import { isStoreOpenNow } from '@/lib/hours';
+import { parseStoreTypes } from '@/lib/store-types';
+import type { SearchResult, StoreInventoryItem } from '@/types';
 
+// Opening hours and confidence are filtered after the query, which then fetches this
+// many times the limit for them to pick from, up to MAX_FILTERED_ROWS stores
+const FILTER_OVERFETCH = 4;
+const MAX_FILTERED_ROWS = 500;
+
+export interface SearchResponse {
+  success: boolean;
+  message: string;
+  data?: {
+    results: SearchResult[];
+  };
+  error?: string;
+}
+
+/**
+ * GET /api/search
+ *
+ * Find stores near a location that carry a given energy drink
+ *
+ * Query params:
+ * - latitude: number (required) - User's latitude
+ * - longitude: number (required) - User's longitude
+ * - radius: number (optional, default: 10) - Search radius in kilometers
+ * - drink_id: number (optional) - Only match this exact drink
+ * - brand: string (optional) - Case-insensitive partial brand match, aliases included
+ * - flavor: string (optional) - Case-insensitive partial flavor match, aliases included
+ * - limit: number (optional, default: 50) - Maximum number of stores to return
+ * - open_now: boolean (optional) - Only return stores that are open right now
+ * - store_type: string (optional) - Comma-separated store types to include (default: all)
+ * - min_confidence: number (optional) - Hide drinks scoring below this confidence, 0 to 1
+ *   (default: INVENTORY_MIN_CONFIDENCE, or 0.2)
+ *
+ * Each result is a store with its distance, whether it is open now (in its local
+ * time zone, null when its hours are unknown) and the matching drinks it lists
+ * (including out-of-stock entries, flagged with in_stock: false), sorted by price.
+ * Every drink carries a confidence score (see src/lib/confidence.ts); stale drinks
+ * are left out, along with stores that have no other matching drinks.
+ *
+ * Returns:
+ * - 200: Successfully searched nearby inventory
+ * - 400: Invalid request (missing lat/long, invalid radius, limit or drink_id,
+ *   unknown store_type, invalid min_confidence)
+ * - 500: Server error
+ */
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const latitude = parseFloat(searchParams.get('latitude') || '0');
-    const longitude = parseFloat(searchParams.get('longitude') || '0');
+    const latitude = parseFloat(searchParams.get('latitude') || '');
+    const longitude = parseFloat(searchParams.get('longitude') || '');
     const radius = parseFloat(searchParams.get('radius') || '10'); // default 10km
-    const brand = searchParams.get('brand');
-    const flavor = searchParams.get('flavor');
+    const limit = parseInt(searchParams.get('limit') || '50'); // default 50 stores
+    const drinkIdParam = searchParams.get('drink_id');
+    const brand = searchParams.get('brand') || null;
+    const flavor = searchParams.get('flavor') || null;
+    const openNow = searchParams.get('open_now') === 'true';
+    const storeTypeParam = searchParams.get('store_type');
+
+    // Validate required parameters
+    if (!latitude || !longitude || isNaN(latitude) || isNaN(longitude)) {
+      return NextResponse.json<SearchResponse>(
+        {
+          success: false,
+          message: 'Latitude and longitude are required',
+          error: 'Missing or invalid location parameters',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isFinite(radius) || radius <= 0) {
+      return NextResponse.json<SearchResponse>(
+        {
+          success: false,
+          message: 'radius must be a positive number of kilometers',
+          error: 'Invalid radius parameter',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(limit) || limit <= 0) {
+      return NextResponse.json<SearchResponse>(
+        {
+          success: false,
+          message: 'limit must be a positive number',
+          error: 'Invalid limit parameter',
+        },
+        { status: 400 }
+      );
+    }
+
+    const drinkId = drinkIdParam ? parseInt(drinkIdParam) : null;
+
+    if (drinkIdParam && (drinkId === null || isNaN(drinkId))) {
+      return NextResponse.json<SearchResponse>(
+        {
+          success: false,
+          message: 'drink_id must be a number',
+          error: 'Invalid drink_id parameter',
+        },
+        { status: 400 }
+      );
+    }
 
-    if (!latitude || !longitude) {
-      return NextResponse.json(
-        { error: 'Latitude and longitude are required' },
+    const storeTypes = storeTypeParam ? parseStoreTypes(storeTypeParam) : null;
+
+    if (storeTypes && !storeTypes.valid) {
+      return NextResponse.json<SearchResponse>(
+        {
+          success: false,
+          message: storeTypes.error,
+          error: 'Invalid store_type parameter',
+        },
         { status: 400 }
       );
     }
 
-    // TODO: Implement PostGIS query for nearby stores with energy drink inventory
-    // Example query structure (requires PostGIS extension):
-    // SELECT s.*,
-    //   ST_Distance(
-    //     ST_MakePoint(s.longitude, s.latitude)::geography,
-    //     ST_MakePoint($1, $2)::geography
-    //   ) / 1000 as distance_km
-    // FROM stores s
-    // WHERE ST_DWithin(
-    //   ST_MakePoint(s.longitude, s.latitude)::geography,
-    //   ST_MakePoint($1, $2)::geography,
-    //   $3 * 1000
-    // )
-
-    const results: SearchResult[] = [];
-
-    return NextResponse.json({ results });
+    const storeTypeFilter = storeTypes ? storeTypes.types : null;
+
+    const confidenceParse = parseMinConfidence(searchParams.get('min_confidence'));
+
+    if (!confidenceParse.valid) {
+      return NextResponse.json<SearchResponse>(
+        {
+          success: false,
+          message: confidenceParse.error,
+          error: 'Invalid min_confidence parameter',
+        },
+        { status: 400 }
+      );
+    }
+
+    const { minConfidence } = confidenceParse;
+
+    // Stores within the radius joined with the inventory rows that match the drink filters.
+    // Filters that were not supplied are passed as NULL and short-circuit to true.
+    // Opening hours and confidence are evaluated after the query, so the limit is applied
+    // in JS when filtering on them.
+    const rowLimit =
+      openNow || minConfidence > 0 ? Math.max(limit, Math.min(limit * FILTER_OVERFETCH, MAX_FILTERED_ROWS)) : limit;
+
+    const rows = await sql`
+      SELECT
+        s.id, s.name, s.store_type, s.address, s.city, s.state, s.zip_code, s.latitude, s.longitude,
+        s.phone, s.hours_json,
+        ST_Distance(
+          s.location,
+          ST_SetSRID(ST_MakePoint(${longitude}, ${latitude}), 4326)::geography
+        ) / 1000 as distance_km,
+        json_agg(
+          json_build_object(
+            'id', d.id,
+            'brand', d.brand,
+            'flavor', d.flavor,
+            'size_ml', d.size_ml,
+            'caffeine_mg', d.caffeine_mg,
+            'barcode', d.barcode,
+            'sugar_g', d.sugar_g,
+            'calories', d.calories,
+            'description', d.description,
+            'image_url', d.image_url,
+            'price', i.price,
+            'in_stock', COALESCE(i.in_stock, true),
+            'last_updated', i.last_updated,
+            'confirmations', e.confirmations,
+            'conflicts', e.conflicts
+          )
+          ORDER BY i.price
+        ) as available_drinks
+      FROM stores s
+      JOIN store_inventory i ON i.store_id = s.id
+      JOIN energy_drinks d ON d.id = i.drink_id
+      JOIN inventory_evidence e ON e.inventory_id = i.id
+      WHERE ST_DWithin(
+        s.location,
+        ST_SetSRID(ST_MakePoint(${longitude}, ${latitude}), 4326)::geography,
+        ${radius * 1000}
+      )
+      AND (${drinkId}::int IS NULL OR d.id = ${drinkId})
+      AND (
+        (${brand}::text IS NULL AND ${flavor}::text IS NULL)
+        OR EXISTS (
+          SELECT 1 FROM drink_names n
+          WHERE n.drink_id = d.id
+          AND (${brand}::text IS NULL OR n.brand ILIKE '%' || ${brand} || '%')
+          AND (${flavor}::text IS NULL OR n.flavor ILIKE '%' || ${flavor} || '%')
+        )
+      )
+      AND (${storeTypeFilter}::text[] IS NULL OR s.store_type = ANY(${storeTypeFilter}::text[]))
+      GROUP BY s.id
+      ORDER BY distance_km
+      LIMIT ${rowLimit}
+    `;
+
+    const now = new Date();
+
+    const allResults = rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      store_type: row.store_type,
+      address: row.address,
+      city: row.city,
+      state: row.state,
+      zip_code: row.zip_code,
+      latitude: parseFloat(row.latitude),
+      longitude: parseFloat(row.longitude),
+      phone: row.phone,
+      hours_json: row.hours_json,
+      open_now: isStoreOpenNow(row),
+      distance_km: parseFloat(row.distance_km),
+      available_drinks: (row.available_drinks as StoreInventoryItem[])
+        .map((drink) => withConfidence(drink, minConfidence, now))
+        .filter((drink) => !drink.stale),
+    })) as SearchResult[];
+
+    const results = allResults
+      .filter((result) => result.available_drinks.length > 0)
+      .filter((result) => !openNow || result.open_now === true)
+      .slice(0, limit);
+
+    return NextResponse.json<SearchResponse>(
+      {
+        success: true,
+        message: `Found ${results.length} stores with matching drinks`,
+        data: { results },
+      },
+      { status: 200 }
+    );
   } catch (error) {
-    console.error('Search error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
+    console.error('Search endpoint error:', error);
+    return NextResponse.json<SearchResponse>(
+      {
+        success: false,
+        message: 'Internal server error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
       { status: 500 }
     );
   }
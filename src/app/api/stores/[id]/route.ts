@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sql } from '@/lib/db';
+import { parseMinConfidence, withConfidence } from '@/lib/confidence';
+import { isStoreOpenNow } from '@/lib/hours';
+import type { StoreDetail, StoreInventoryItem } from '@/types';
+
+export interface StoreDetailResponse {
+  success: boolean;
+  message: string;
+  data?: {
+    store: StoreDetail;
+  };
+  error?: string;
+}
+
+/**
+ * GET /api/stores/[id]
+ *
+ * Get a store with everything it carries
+ *
+ * The inventory lists each drink with its price, availability, when it was last
+ * reported and a confidence score (see src/lib/confidence.ts), cheapest first.
+ * Stale entries are kept but flagged and moved to the end.
+ *
+ * Query params:
+ * - min_confidence: number (optional) - Confidence below which entries are stale, 0 to 1
+ *   (default: INVENTORY_MIN_CONFIDENCE, or 0.2)
+ *
+ * Example: /api/stores/42
+ *
+ * Returns:
+ * - 200: Store found
+ * - 400: Invalid store id or min_confidence
+ * - 404: No store with this id
+ * - 500: Server error
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const storeId = parseInt(id);
+
+    if (isNaN(storeId)) {
+      return NextResponse.json<StoreDetailResponse>(
+        {
+          success: false,
+          message: 'Store id must be a number',
+          error: 'Invalid store id',
+        },
+        { status: 400 }
+      );
+    }
+
+    const confidenceParse = parseMinConfidence(request.nextUrl.searchParams.get('min_confidence'));
+
+    if (!confidenceParse.valid) {
+      return NextResponse.json<StoreDetailResponse>(
+        {
+          success: false,
+          message: confidenceParse.error,
+          error: 'Invalid min_confidence parameter',
+        },
+        { status: 400 }
+      );
+    }
+
+    const storeResult = await sql`
+      SELECT
+        id, name, store_type, address, city, state, zip_code, latitude, longitude,
+        phone, website, operator, hours_json, possibly_closed_at, created_at
+      FROM stores
+      WHERE id = ${storeId}
+    `;
+
+    if (storeResult.length === 0) {
+      return NextResponse.json<StoreDetailResponse>(
+        {
+          success: false,
+          message: 'Store not found',
+          error: `No store with id ${storeId}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    const inventoryResult = await sql`
+      SELECT
+        d.id, d.brand, d.flavor, d.size_ml, d.caffeine_mg, d.barcode, d.sugar_g, d.calories,
+        d.description, d.image_url,
+        i.price, COALESCE(i.in_stock, true) as in_stock, i.last_updated, e.confirmations, e.conflicts
+      FROM store_inventory i
+      JOIN energy_drinks d ON d.id = i.drink_id
+      JOIN inventory_evidence e ON e.inventory_id = i.id
+      WHERE e.store_id = ${storeId}
+      ORDER BY i.price ASC, d.brand, d.flavor
+    `;
+
+    const row = storeResult[0];
+
+    const now = new Date();
+
+    // Sorting is stable, so each group stays cheapest first
+    const inventory = inventoryResult
+      .map((item) =>
+        withConfidence(
+          { ...item, price: parseFloat(item.price) } as StoreInventoryItem,
+          confidenceParse.minConfidence,
+          now
+        )
+      )
+      .sort((a, b) => Number(a.stale) - Number(b.stale));
+
+    const store = {
+      ...row,
+      latitude: parseFloat(row.latitude),
+      longitude: parseFloat(row.longitude),
+      open_now: isStoreOpenNow(row),
+      inventory,
+    } as StoreDetail;
+
+    return NextResponse.json<StoreDetailResponse>(
+      {
+        success: true,
+        message: `Found ${store.name} with ${inventory.length} drinks`,
+        data: { store },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Store detail endpoint error:', error);
+    return NextResponse.json<StoreDetailResponse>(
+      {
+        success: false,
+        message: 'Internal server error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sql } from '@/lib/db';
+import { reportStock } from '@/lib/stock-reports';
+import type { StockReportResult } from '@/types';
+
+export interface StockReportRequest {
+  drink_id: number;
+  in_stock?: boolean;
+}
+
+export interface StockReportResponse {
+  success: boolean;
+  message: string;
+  data?: {
+    report: StockReportResult;
+  };
+  error?: string;
+}
+
+/**
+ * POST /api/stores/[id]/stock-reports
+ *
+ * Report whether a store has a drink on its shelf
+ *
+ * Reports are timestamped in the inventory history. One that contradicts the
+ * inventory only flips availability once reports on enough different days agree
+ * (see src/lib/stock-reports.ts). Reports for a drink the store doesn't list are
+ * logged without a price and don't add it to the store.
+ *
+ * Request body:
+ * - drink_id: number (required) - ID of the energy drink
+ * - in_stock: boolean (optional, default: false) - Whether the drink was on the shelf
+ *
+ * Returns:
+ * - 200: Report recorded
+ * - 400: Invalid store id, drink_id or in_stock
+ * - 404: Store or drink not found
+ * - 500: Server error
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const storeId = parseInt(id);
+    const body: StockReportRequest = await request.json();
+
+    if (isNaN(storeId)) {
+      return NextResponse.json<StockReportResponse>(
+        {
+          success: false,
+          message: 'Store id must be a number',
+          error: 'Invalid store id',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(body.drink_id)) {
+      return NextResponse.json<StockReportResponse>(
+        {
+          success: false,
+          message: 'drink_id is required and must be a number',
+          error: 'Missing or invalid drink_id field',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body.in_stock !== undefined && typeof body.in_stock !== 'boolean') {
+      return NextResponse.json<StockReportResponse>(
+        {
+          success: false,
+          message: 'in_stock must be true or false',
+          error: 'Invalid in_stock field',
+        },
+        { status: 400 }
+      );
+    }
+
+    const existsResult = await sql`
+      SELECT
+        (SELECT name FROM stores WHERE id = ${storeId}) as store_name,
+        (SELECT brand || ' ' || flavor FROM energy_drinks WHERE id = ${body.drink_id}) as drink_name
+    `;
+
+    const { store_name: storeName, drink_name: drinkName } = existsResult[0];
+
+    if (!storeName || !drinkName) {
+      return NextResponse.json<StockReportResponse>(
+        {
+          success: false,
+          message: !storeName ? 'Store not found' : 'Drink not found',
+          error: !storeName ? `No store with id ${storeId}` : `No drink with id ${body.drink_id}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    const inStock = body.in_stock ?? false;
+    const report = await reportStock(sql, storeId, body.drink_id, inStock);
+    const availability = inStock ? 'in stock' : 'out of stock';
+
+    return NextResponse.json<StockReportResponse>(
+      {
+        success: true,
+        message: !report.listed
+          ? `${storeName} doesn't list ${drinkName}; noted that it's ${availability}` +
+            (inStock ? ' (scan it with a price to add it)' : '')
+          : report.in_stock === inStock
+            ? `${drinkName} is ${availability} at ${storeName}`
+            : `Reported ${drinkName} ${availability} at ${storeName} ` +
+              `(${report.agreeing_reports} of ${report.reports_to_flip} days of reports needed)`,
+        data: { report },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Stock report endpoint error:', error);
+    return NextResponse.json<StockReportResponse>(
+      {
+        success: false,
+        message: 'Internal server error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { sql } from '@/lib/db';
+import { isStoreOpenNow } from '@/lib/hours';
+import { parseStoreTypes } from '@/lib/store-types';
 import type { Store } from '@/types';
 
 export interface AllStoresResponse {
@@ -14,30 +16,56 @@ export interface AllStoresResponse {
 /**
  * GET /api/stores/all
  *
- * Get all gas stations with their coordinates for map display
+ * Get all stores with their coordinates for map display
+ *
+ * Query params:
+ * - store_type: string (optional) - Comma-separated store types to include,
+ *   e.g. fuel,convenience (default: all)
  *
  * Returns:
  * - 200: Successfully retrieved all stores
+ * - 400: Invalid request (unknown store_type)
  * - 500: Server error
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
+    const storeTypeParam = request.nextUrl.searchParams.get('store_type');
+    const storeTypes = storeTypeParam ? parseStoreTypes(storeTypeParam) : null;
+
+    if (storeTypes && !storeTypes.valid) {
+      return NextResponse.json<AllStoresResponse>(
+        {
+          success: false,
+          message: storeTypes.error,
+          error: 'Invalid store_type parameter',
+        },
+        { status: 400 }
+      );
+    }
+
+    const storeTypeFilter = storeTypes ? storeTypes.types : null;
+
     const storesResult = await sql`
       SELECT
-        id, name, address, city, state, zip_code, latitude, longitude
+        id, name, store_type, address, city, state, zip_code, latitude, longitude, phone, hours_json
       FROM stores
+      WHERE ${storeTypeFilter}::text[] IS NULL OR store_type = ANY(${storeTypeFilter}::text[])
       ORDER BY name
     `;
 
     const stores = storesResult.map((row) => ({
       id: row.id,
       name: row.name,
+      store_type: row.store_type,
       address: row.address,
       city: row.city,
       state: row.state,
       zip_code: row.zip_code,
       latitude: parseFloat(row.latitude),
       longitude: parseFloat(row.longitude),
+      phone: row.phone,
+      hours_json: row.hours_json,
+      open_now: isStoreOpenNow(row),
     })) as Store[];
 
     return NextResponse.json<AllStoresResponse>(
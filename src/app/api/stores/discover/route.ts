@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { findNearbyGasStationsRateLimited } from '@/lib/overpass';
+import { findNearbyStoresRateLimited } from '@/lib/overpass';
 import { sql } from '@/lib/db';
+import { getGeocodingProvider, type GeocodingProvider } from '@/lib/geocode';
+import { fillMissingAddress, hasMissingAddress, insertStore, refreshStore } from '@/lib/store-import';
+import { parseStoreTypes, STORE_TYPES } from '@/lib/store-types';
+import { findMatchingStore, type StoreMatch } from '@/lib/store-matching';
+import type { StoreType } from '@/types';
 
 export interface DiscoverStoresResponse {
   success: boolean;
@@ -8,13 +13,21 @@ export interface DiscoverStoresResponse {
   data?: {
     discovered: number;
     added: number;
+    /** Existing stores refreshed with the latest OpenStreetMap tags */
+    updated: number;
+    /** Stations matching a store that is already linked to a different OSM element */
     skipped: number;
+    /** Stations whose missing address fields were filled by reverse geocoding */
+    geocoded: number;
     stations: Array<{
       name: string;
+      storeType: StoreType;
       address: string;
       city: string;
       state: string;
-      status: 'added' | 'skipped' | 'error';
+      status: 'added' | 'updated' | 'skipped' | 'error';
+      /** Existing store an updated or skipped station was matched to */
+      matchedStore?: StoreMatch;
     }>;
   };
   error?: string;
@@ -23,23 +36,34 @@ export interface DiscoverStoresResponse {
 /**
  * POST /api/stores/discover
  *
- * Discover and import gas stations from OpenStreetMap near a location
+ * Discover and import stores from OpenStreetMap near a location
  *
  * Body:
  * - latitude: number (required) - Center latitude
  * - longitude: number (required) - Center longitude
  * - radius: number (optional, default: 5000) - Search radius in meters
+ * - categories: string[] or comma-separated string (optional, default: all) - Store types to
+ *   discover: fuel, convenience, supermarket, kiosk, pharmacy, vending
  * - autoImport: boolean (optional, default: false) - Automatically import to database
  *
+ * When importing, each station is matched against existing stores by OSM element
+ * first, then by proximity plus name similarity (see src/lib/store-matching.ts):
+ * - Same OSM element, or a nearby store not yet linked to OSM: the store is linked
+ *   and refreshed with the latest name, phone, website, operator and opening_hours tags
+ * - A nearby store already linked to a different OSM element: the station is skipped
+ * Either way the response lists the matched store. New stations without address
+ * tags are reverse geocoded (respecting the provider's rate limit) to fill in
+ * address, city, state and zip code before they are inserted.
+ *
  * Returns:
- * - 200: Successfully discovered and optionally imported gas stations
- * - 400: Invalid request (missing lat/long)
+ * - 200: Successfully discovered and optionally imported stores
+ * - 400: Invalid request (missing lat/long, unknown category)
  * - 500: Server error
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { latitude, longitude, radius = 5000, autoImport = false } = body;
+    const { latitude, longitude, radius = 5000, categories, autoImport = false } = body;
 
     // Validate required parameters
     if (!latitude || !longitude || isNaN(latitude) || isNaN(longitude)) {
@@ -53,57 +77,104 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Discover gas stations from OpenStreetMap
-    const discoveredStations = await findNearbyGasStationsRateLimited(
+    let storeTypes: readonly StoreType[] = STORE_TYPES;
+
+    if (categories !== undefined && categories !== null) {
+      const parsed = parseStoreTypes(categories);
+
+      if (!parsed.valid) {
+        return NextResponse.json<DiscoverStoresResponse>(
+          {
+            success: false,
+            message: parsed.error,
+            error: 'Invalid categories',
+          },
+          { status: 400 }
+        );
+      }
+
+      storeTypes = parsed.types;
+    }
+
+    // Discover stores from OpenStreetMap
+    const discoveredStations = await findNearbyStoresRateLimited(
       latitude,
       longitude,
-      radius
+      radius,
+      storeTypes
     );
 
     const results = {
       discovered: discoveredStations.length,
       added: 0,
+      updated: 0,
       skipped: 0,
+      geocoded: 0,
       stations: [] as Array<{
         name: string;
+        storeType: StoreType;
         address: string;
         city: string;
         state: string;
-        status: 'added' | 'skipped' | 'error';
+        status: 'added' | 'updated' | 'skipped' | 'error';
+        matchedStore?: StoreMatch;
       }>,
     };
 
     // If autoImport is true, add stations to database
     if (autoImport) {
-      for (const station of discoveredStations) {
+      // Created on the first missing address; null when it can't be set up, in which
+      // case stores are imported with the address fields OpenStreetMap has
+      let provider: GeocodingProvider | null | undefined;
+      let reverseLookups = 0;
+
+      for (const discovered of discoveredStations) {
+        let station = discovered;
+
         try {
-          // Check if station already exists (by address)
-          const existing = await sql`
-            SELECT id FROM stores
-            WHERE LOWER(address) = LOWER(${station.address})
-            AND LOWER(city) = LOWER(${station.city})
-          `;
-
-          if (existing.length > 0) {
+          const match = await findMatchingStore(sql, station);
+
+          if (match && (match.match === 'osm_id' || match.osmId === null)) {
+            await refreshStore(sql, match.storeId, station);
+            results.updated++;
+            results.stations.push({ ...station, status: 'updated', matchedStore: match });
+            continue;
+          }
+
+          if (match) {
+            // Most likely the same place mapped twice in OSM (e.g. a node and a building way)
             results.skipped++;
-            results.stations.push({ ...station, status: 'skipped' });
+            results.stations.push({ ...station, status: 'skipped', matchedStore: match });
             continue;
           }
 
+          if (hasMissingAddress(station) && provider === undefined) {
+            try {
+              provider = getGeocodingProvider();
+            } catch (error) {
+              console.error('Geocoding unavailable, importing stores without missing addresses:', error);
+              provider = null;
+            }
+          }
+
+          if (hasMissingAddress(station) && provider) {
+            // Respect the geocoding provider's rate limit between lookups
+            const { rateLimitMs } = provider;
+            if (reverseLookups > 0 && rateLimitMs > 0) {
+              await new Promise((resolve) => setTimeout(resolve, rateLimitMs));
+            }
+            reverseLookups++;
+
+            try {
+              station = await fillMissingAddress(station, provider);
+              results.geocoded++;
+            } catch (error) {
+              console.error(`Error reverse geocoding station ${station.name}:`, error);
+            }
+          }
+
           // Insert new station with PostGIS location
-          await sql`
-            INSERT INTO stores (name, address, city, state, zip_code, latitude, longitude, location)
-            VALUES (
-              ${station.name},
-              ${station.address},
-              ${station.city},
-              ${station.state},
-              ${station.zipCode},
-              ${station.latitude},
-              ${station.longitude},
-              ST_SetSRID(ST_MakePoint(${station.longitude}, ${station.latitude}), 4326)::geography
-            )
-          `;
+          await insertStore(sql, station);
 
           results.added++;
           results.stations.push({ ...station, status: 'added' });
@@ -116,7 +187,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json<DiscoverStoresResponse>(
         {
           success: true,
-          message: `Discovered ${results.discovered} stations, added ${results.added}, skipped ${results.skipped}`,
+          message: `Discovered ${results.discovered} stores, added ${results.added}, updated ${results.updated}, skipped ${results.skipped}, geocoded ${results.geocoded}`,
           data: results,
         },
         { status: 200 }
@@ -127,11 +198,13 @@ export async function POST(request: NextRequest) {
     return NextResponse.json<DiscoverStoresResponse>(
       {
         success: true,
-        message: `Discovered ${discoveredStations.length} gas stations`,
+        message: `Discovered ${discoveredStations.length} stores`,
         data: {
           discovered: discoveredStations.length,
           added: 0,
+          updated: 0,
           skipped: 0,
+          geocoded: 0,
           stations: discoveredStations.map((s) => ({ ...s, status: 'skipped' as const })),
         },
       },
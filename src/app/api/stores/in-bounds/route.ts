@@ -0,0 +1,254 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sql } from '@/lib/db';
+import { isStoreOpenNow } from '@/lib/hours';
+import { CLUSTER_MAX_ZOOM, WEB_MERCATOR_WORLD_SIZE } from '@/lib/map-tiles';
+import { parseStoreTypes } from '@/lib/store-types';
+import type { Store, StoreCluster } from '@/types';
+
+// Cap on stores per request; a tile with more than this is returned truncated
+const MAX_STORES_IN_BOUNDS = 1000;
+
+// Edge length (degrees) of the segments the box is split into before it's cast to
+// geography, so its edges follow lines of latitude instead of great circles
+const ENVELOPE_SEGMENT_DEG = 0.5;
+
+// Cluster grid cells per 256px map tile, i.e. stores within about 64px of each other are grouped
+const CLUSTER_CELLS_PER_TILE = 4;
+
+export interface StoresInBoundsResponse {
+  success: boolean;
+  message: string;
+  data?: {
+    /** Individual stores: everything below the cluster zoom, otherwise stores alone in their grid cell */
+    stores: Store[];
+    clusters: StoreCluster[];
+    /** More stores are in the box than MAX_STORES_IN_BOUNDS */
+    truncated: boolean;
+  };
+  error?: string;
+}
+
+function toStore(row: Record<string, unknown>): Store {
+  return {
+    id: row.id,
+    name: row.name,
+    store_type: row.store_type,
+    address: row.address,
+    city: row.city,
+    state: row.state,
+    zip_code: row.zip_code,
+    latitude: parseFloat(row.latitude as string),
+    longitude: parseFloat(row.longitude as string),
+    phone: row.phone,
+    hours_json: row.hours_json,
+    open_now: isStoreOpenNow(row),
+  } as Store;
+}
+
+/**
+ * GET /api/stores/in-bounds
+ *
+ * Get the stores inside a bounding box for map display
+ *
+ * Below zoom 14 nearby stores are grouped on a Web Mercator grid aligned with map
+ * tiles, so boxes on tile edges never split a cluster. Grid cells holding a single
+ * store are returned as stores rather than clusters of one.
+ *
+ * Query params:
+ * - west, south, east, north: number (required) - Box edges in degrees
+ * - zoom: number (optional) - Current map zoom; stores are clustered below 14
+ *   (default: no clustering)
+ * - drink_id: number (optional) - Count the stores in each cluster that have this
+ *   drink in stock (stocking_count)
+ * - store_type: string (optional) - Comma-separated store types to include,
+ *   e.g. fuel,convenience (default: all)
+ *
+ * Example: /api/stores/in-bounds?west=-87.3&south=30.35&east=-87.1&north=30.5&zoom=10&drink_id=3
+ *
+ * Returns:
+ * - 200: Stores and clusters in the box (at most 1000 unclustered stores, with
+ *   truncated: true when there are more)
+ * - 400: Invalid request (missing or out-of-range edges, invalid zoom or drink_id, unknown store_type)
+ * - 500: Server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const west = parseFloat(searchParams.get('west') || '');
+    const south = parseFloat(searchParams.get('south') || '');
+    const east = parseFloat(searchParams.get('east') || '');
+    const north = parseFloat(searchParams.get('north') || '');
+    const zoomParam = searchParams.get('zoom');
+    const zoom = zoomParam ? parseFloat(zoomParam) : null;
+    const drinkIdParam = searchParams.get('drink_id');
+    const drinkId = drinkIdParam ? parseInt(drinkIdParam) : null;
+
+    if (
+      [west, south, east, north].some(isNaN) ||
+      south < -90 ||
+      north > 90 ||
+      west < -180 ||
+      east > 180 ||
+      south >= north ||
+      west >= east
+    ) {
+      return NextResponse.json<StoresInBoundsResponse>(
+        {
+          success: false,
+          message: 'west, south, east and north are required, with south < north and west < east',
+          error: 'Missing or invalid bounds parameters',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (zoom !== null && (isNaN(zoom) || zoom < 0 || zoom > 24)) {
+      return NextResponse.json<StoresInBoundsResponse>(
+        {
+          success: false,
+          message: 'zoom must be between 0 and 24',
+          error: 'Invalid zoom parameter',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (drinkId !== null && isNaN(drinkId)) {
+      return NextResponse.json<StoresInBoundsResponse>(
+        {
+          success: false,
+          message: 'drink_id must be a number',
+          error: 'Invalid drink_id parameter',
+        },
+        { status: 400 }
+      );
+    }
+
+    const storeTypeParam = searchParams.get('store_type');
+    const storeTypes = storeTypeParam ? parseStoreTypes(storeTypeParam) : null;
+
+    if (storeTypes && !storeTypes.valid) {
+      return NextResponse.json<StoresInBoundsResponse>(
+        {
+          success: false,
+          message: storeTypes.error,
+          error: 'Invalid store_type parameter',
+        },
+        { status: 400 }
+      );
+    }
+
+    const storeTypeFilter = storeTypes ? storeTypes.types : null;
+
+    // && on the geography column uses the idx_stores_location GiST index;
+    // the latitude/longitude comparison then trims it to the exact box
+    const inBounds = sql`
+      location && ST_Segmentize(ST_MakeEnvelope(${west}, ${south}, ${east}, ${north}, 4326), ${ENVELOPE_SEGMENT_DEG})::geography
+      AND latitude BETWEEN ${south} AND ${north}
+      AND longitude BETWEEN ${west} AND ${east}
+      AND (${storeTypeFilter}::text[] IS NULL OR store_type = ANY(${storeTypeFilter}::text[]))
+    `;
+
+    if (zoom === null || zoom >= CLUSTER_MAX_ZOOM) {
+      const storesResult = await sql`
+        SELECT
+          id, name, store_type, address, city, state, zip_code, latitude, longitude, phone, hours_json
+        FROM stores
+        WHERE ${inBounds}
+        ORDER BY id
+        LIMIT ${MAX_STORES_IN_BOUNDS + 1}
+      `;
+
+      const truncated = storesResult.length > MAX_STORES_IN_BOUNDS;
+      const stores = storesResult.slice(0, MAX_STORES_IN_BOUNDS).map(toStore);
+
+      return NextResponse.json<StoresInBoundsResponse>(
+        {
+          success: true,
+          message: `Found ${stores.length} stores${truncated ? ' (truncated)' : ''}`,
+          data: { stores, clusters: [], truncated },
+        },
+        { status: 200 }
+      );
+    }
+
+    // Grid cell size in Web Mercator meters; the grid starts at the world's edge so
+    // every map tile boundary is also a cell boundary
+    const cellSize = WEB_MERCATOR_WORLD_SIZE / 2 ** Math.floor(zoom) / CLUSTER_CELLS_PER_TILE;
+
+    const cellsResult = await sql`
+      WITH in_view AS (
+        SELECT
+          s.id,
+          s.latitude,
+          s.longitude,
+          ST_Transform(s.location::geometry, 3857) AS point,
+          EXISTS (
+            SELECT 1 FROM store_inventory i
+            WHERE i.store_id = s.id AND i.drink_id = ${drinkId} AND i.in_stock
+          ) AS stocks_drink
+        FROM stores s
+        WHERE ${inBounds}
+      )
+      SELECT
+        ${Math.floor(zoom)} || '/' ||
+          floor((ST_X(point) + ${WEB_MERCATOR_WORLD_SIZE / 2}) / ${cellSize})::bigint || '/' ||
+          floor((ST_Y(point) + ${WEB_MERCATOR_WORLD_SIZE / 2}) / ${cellSize})::bigint AS id,
+        COUNT(*)::int AS count,
+        COUNT(*) FILTER (WHERE stocks_drink)::int AS stocking_count,
+        AVG(latitude)::float8 AS latitude,
+        AVG(longitude)::float8 AS longitude,
+        MIN(latitude)::float8 AS south,
+        MIN(longitude)::float8 AS west,
+        MAX(latitude)::float8 AS north,
+        MAX(longitude)::float8 AS east,
+        MIN(id) AS store_id
+      FROM in_view
+      GROUP BY 1
+    `;
+
+    const clusters: StoreCluster[] = cellsResult
+      .filter((cell) => cell.count > 1)
+      .map((cell) => ({
+        id: cell.id,
+        latitude: cell.latitude,
+        longitude: cell.longitude,
+        count: cell.count,
+        stocking_count: cell.stocking_count,
+        bounds: { south: cell.south, west: cell.west, north: cell.north, east: cell.east },
+      }));
+
+    const singleIds = cellsResult.filter((cell) => cell.count === 1).map((cell) => cell.store_id);
+
+    const storesResult = singleIds.length > 0
+      ? await sql`
+          SELECT
+            id, name, store_type, address, city, state, zip_code, latitude, longitude, phone, hours_json
+          FROM stores
+          WHERE id = ANY(${singleIds}::int[])
+        `
+      : [];
+
+    const stores = storesResult.map(toStore);
+
+    return NextResponse.json<StoresInBoundsResponse>(
+      {
+        success: true,
+        message: `Found ${clusters.length} clusters and ${stores.length} stores`,
+        data: { stores, clusters, truncated: false },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Stores in bounds endpoint error:', error);
+    return NextResponse.json<StoresInBoundsResponse>(
+      {
+        success: false,
+        message: 'Internal server error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
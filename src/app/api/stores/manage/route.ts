@@ -0,0 +1,330 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { sql } from '@/lib/db';
+import { geocodeAddress, getGeocodingProvider } from '@/lib/geocode';
+import { createDatabaseGeocodeCache, withGeocodeCache } from '@/lib/geocoding';
+import { isStoreOpenNow, validateStoreHours } from '@/lib/hours';
+import { isStoreType, STORE_TYPES } from '@/lib/store-types';
+import type { StoreHours, StoreType } from '@/types';
+
+const prisma = new PrismaClient();
+
+const storeSelect = {
+  id: true,
+  name: true,
+  store_type: true,
+  address: true,
+  city: true,
+  state: true,
+  zip_code: true,
+  latitude: true,
+  longitude: true,
+  phone: true,
+  website: true,
+  operator: true,
+  hours_json: true,
+  created_at: true,
+  updated_at: true,
+} satisfies Prisma.storesSelect;
+
+type StoreRow = Prisma.storesGetPayload<{ select: typeof storeSelect }>;
+
+interface StoreInput {
+  name: string;
+  /** Omitted on update to keep the current type; the column defaults to 'fuel' on create */
+  store_type?: StoreType;
+  address: string;
+  city: string;
+  state: string;
+  zip_code: string;
+  latitude: number | null;
+  longitude: number | null;
+  phone: string | null;
+  hours_json: Prisma.InputJsonValue | typeof Prisma.DbNull;
+}
+
+// Decimal coordinates serialize as strings, so convert them for clients
+function toStore(store: StoreRow) {
+  const hours = store.hours_json as StoreHours | null;
+
+  return {
+    ...store,
+    store_type: store.store_type as StoreType,
+    latitude: Number(store.latitude),
+    longitude: Number(store.longitude),
+    hours_json: hours,
+    open_now: isStoreOpenNow({ hours_json: hours, state: store.state }),
+  };
+}
+
+function parseCoordinate(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const parsed = Number(value);
+  return isNaN(parsed) ? NaN : parsed;
+}
+
+/**
+ * Validate a create/update request body
+ * Returns the cleaned input, or an error message for a 400 response
+ */
+function parseStoreInput(body: Record<string, unknown>): { input: StoreInput } | { error: string } {
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+  const name = text(body.name);
+  const address = text(body.address);
+  const city = text(body.city);
+  const state = text(body.state).toUpperCase();
+  const zipCode = text(body.zip_code);
+  const phone = text(body.phone);
+
+  if (!name || !address || !city || !state || !zipCode) {
+    return { error: 'Name, address, city, state, and zip code are required' };
+  }
+
+  if (!/^[A-Z]{2}$/.test(state)) {
+    return { error: `State must be a 2-letter code, got "${state}"` };
+  }
+
+  if (!/^\d{5}(-\d{4})?$/.test(zipCode)) {
+    return { error: `Zip code must be 5 digits or ZIP+4, got "${zipCode}"` };
+  }
+
+  if (body.store_type !== undefined && !isStoreType(body.store_type)) {
+    return { error: `Store type must be one of ${STORE_TYPES.join(', ')}` };
+  }
+
+  if (phone.length > 20) {
+    return { error: 'Phone number must be at most 20 characters' };
+  }
+
+  const latitude = parseCoordinate(body.latitude);
+  const longitude = parseCoordinate(body.longitude);
+
+  if ((latitude === null) !== (longitude === null)) {
+    return { error: 'Provide both latitude and longitude, or neither to geocode the address' };
+  }
+
+  if (
+    latitude !== null &&
+    longitude !== null &&
+    (isNaN(latitude) || isNaN(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180)
+  ) {
+    return { error: 'Latitude must be between -90 and 90 and longitude between -180 and 180' };
+  }
+
+  let hours: StoreHours | null = null;
+
+  if (body.hours_json !== undefined && body.hours_json !== null) {
+    const hoursResult = validateStoreHours(body.hours_json);
+
+    if (!hoursResult.valid) {
+      return { error: hoursResult.error };
+    }
+
+    hours = hoursResult.hours;
+  }
+
+  return {
+    input: {
+      name,
+      store_type: body.store_type as StoreType | undefined,
+      address,
+      city,
+      state,
+      zip_code: zipCode,
+      latitude,
+      longitude,
+      phone: phone || null,
+      hours_json: hours ? (hours as Prisma.InputJsonValue) : Prisma.DbNull,
+    },
+  };
+}
+
+/**
+ * Fill in coordinates from the address when the request didn't include them
+ */
+async function resolveCoordinates(input: StoreInput): Promise<{ latitude: number; longitude: number }> {
+  if (input.latitude !== null && input.longitude !== null) {
+    return { latitude: input.latitude, longitude: input.longitude };
+  }
+
+  const provider = withGeocodeCache(getGeocodingProvider(), createDatabaseGeocodeCache(sql));
+  const result = await geocodeAddress(
+    {
+      address: input.address,
+      city: input.city,
+      state: input.state,
+      zip_code: input.zip_code,
+      country: 'US',
+    },
+    provider
+  );
+
+  return { latitude: result.latitude, longitude: result.longitude };
+}
+
+function isGeocodingError(error: unknown): error is Error {
+  return error instanceof Error && error.message.startsWith('Geocoding failed');
+}
+
+// GET all stores with optional filtering by name or city
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const query = searchParams.get('q');
+
+    const stores = await prisma.stores.findMany({
+      select: storeSelect,
+      where: query
+        ? {
+            OR: [
+              { name: { contains: query, mode: 'insensitive' } },
+              { city: { contains: query, mode: 'insensitive' } },
+            ],
+          }
+        : undefined,
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { stores: stores.map(toStore) },
+    });
+  } catch (error) {
+    console.error('Error fetching stores:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch stores' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create new store (geocodes the address when coordinates are missing)
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = parseStoreInput(body);
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const { input } = parsed;
+    const coordinates = await resolveCoordinates(input);
+
+    // The store_location_trigger fills in the PostGIS location from latitude/longitude
+    const store = await prisma.stores.create({
+      data: { ...input, ...coordinates },
+      select: storeSelect,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { store: toStore(store) },
+    });
+  } catch (error) {
+    if (isGeocodingError(error)) {
+      return NextResponse.json(
+        { success: false, error: `Could not find coordinates for this address: ${error.message}` },
+        { status: 422 }
+      );
+    }
+
+    console.error('Error creating store:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create store' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Update store (geocodes the address when coordinates are missing)
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { id } = body;
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Store ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseStoreInput(body);
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const { input } = parsed;
+    const coordinates = await resolveCoordinates(input);
+
+    const store = await prisma.stores.update({
+      where: { id: parseInt(id) },
+      data: { ...input, ...coordinates },
+      select: storeSelect,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { store: toStore(store) },
+    });
+  } catch (error) {
+    if (isGeocodingError(error)) {
+      return NextResponse.json(
+        { success: false, error: `Could not find coordinates for this address: ${error.message}` },
+        { status: 422 }
+      );
+    }
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      return NextResponse.json(
+        { success: false, error: 'Store not found' },
+        { status: 404 }
+      );
+    }
+
+    console.error('Error updating store:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update store' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Delete store (its inventory and price history are removed with it)
+export async function DELETE(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Store ID is required' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.stores.delete({
+      where: { id: parseInt(id) },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Store deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting store:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete store' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { sql } from '@/lib/db';
+import { parseMinConfidence, withConfidence, type InventoryEvidence } from '@/lib/confidence';
+import { isStoreOpenNow } from '@/lib/hours';
+import { parseStoreTypes } from '@/lib/store-types';
 import type { Store } from '@/types';
 
 export interface NearbyStoresResponse {
   success: boolean;
   message: string;
   data?: {
-    stores: Array<Store & { distance_km: number }>;
+    stores: NearbyStore[];
   };
   error?: string;
 }
 
+type NearbyStore = Store & {
+  distance_km: number;
+  /** Drinks listed at the store that aren't stale */
+  drink_count: number;
+  /** Average confidence of the store's inventory, null when it has none */
+  inventory_confidence: number | null;
+};
+
 /**
  * GET /api/stores/nearby
  *
@@ -21,10 +32,20 @@ export interface NearbyStoresResponse {
  * - longitude: number (required) - User's longitude
  * - radius: number (optional, default: 10) - Search radius in kilometers
  * - limit: number (optional, default: 10) - Maximum number of stores to return
+ * - open_now: boolean (optional) - Only return stores that are open right now
+ * - store_type: string (optional) - Comma-separated store types to include,
+ *   e.g. fuel,convenience (default: all)
+ * - min_confidence: number (optional) - Confidence below which inventory entries
+ *   aren't counted, 0 to 1 (default: INVENTORY_MIN_CONFIDENCE, or 0.2)
+ *
+ * Each store includes open_now, computed in the store's local time zone
+ * (null when its hours are unknown; those stores are excluded by open_now=true),
+ * and a summary of its inventory: how many drinks it lists that aren't stale and
+ * their average confidence (see src/lib/confidence.ts).
  *
  * Returns:
  * - 200: Successfully retrieved nearby stores
- * - 400: Invalid request (missing lat/long)
+ * - 400: Invalid request (missing lat/long, unknown store_type, invalid min_confidence)
  * - 500: Server error
  */
 export async function GET(request: NextRequest) {
@@ -34,6 +55,8 @@ export async function GET(request: NextRequest) {
     const longitude = parseFloat(searchParams.get('longitude') || '');
     const radius = parseFloat(searchParams.get('radius') || '10'); // default 10km
     const limit = parseInt(searchParams.get('limit') || '10'); // default 10 stores
+    const openNow = searchParams.get('open_now') === 'true';
+    const storeTypeParam = searchParams.get('store_type');
 
     // Validate required parameters
     if (!latitude || !longitude || isNaN(latitude) || isNaN(longitude)) {
@@ -47,35 +70,95 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Query nearby stores using PostGIS
+    const storeTypes = storeTypeParam ? parseStoreTypes(storeTypeParam) : null;
+
+    if (storeTypes && !storeTypes.valid) {
+      return NextResponse.json<NearbyStoresResponse>(
+        {
+          success: false,
+          message: storeTypes.error,
+          error: 'Invalid store_type parameter',
+        },
+        { status: 400 }
+      );
+    }
+
+    const storeTypeFilter = storeTypes ? storeTypes.types : null;
+
+    const confidenceParse = parseMinConfidence(searchParams.get('min_confidence'));
+
+    if (!confidenceParse.valid) {
+      return NextResponse.json<NearbyStoresResponse>(
+        {
+          success: false,
+          message: confidenceParse.error,
+          error: 'Invalid min_confidence parameter',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Query nearby stores using PostGIS.
+    // Opening hours are evaluated after the query, so the limit is applied in JS when filtering on them.
     const storesResult = await sql`
       SELECT
-        id, name, address, city, state, zip_code, latitude, longitude,
+        id, name, store_type, address, city, state, zip_code, latitude, longitude, phone, hours_json,
         ST_Distance(
           location,
           ST_SetSRID(ST_MakePoint(${longitude}, ${latitude}), 4326)::geography
-        ) / 1000 as distance_km
+        ) / 1000 as distance_km,
+        (
+          SELECT json_agg(
+            json_build_object(
+              'last_updated', i.last_updated,
+              'confirmations', e.confirmations,
+              'conflicts', e.conflicts
+            )
+          )
+          FROM store_inventory i
+          JOIN inventory_evidence e ON e.inventory_id = i.id
+          WHERE e.store_id = stores.id
+        ) as inventory_evidence
       FROM stores
       WHERE ST_DWithin(
         location,
         ST_SetSRID(ST_MakePoint(${longitude}, ${latitude}), 4326)::geography,
         ${radius * 1000}
       )
+      AND (${storeTypeFilter}::text[] IS NULL OR store_type = ANY(${storeTypeFilter}::text[]))
       ORDER BY location <-> ST_SetSRID(ST_MakePoint(${longitude}, ${latitude}), 4326)::geography
-      LIMIT ${limit}
+      LIMIT ${openNow ? null : limit}
     `;
 
-    const stores = storesResult.map((row) => ({
-      id: row.id,
-      name: row.name,
-      address: row.address,
-      city: row.city,
-      state: row.state,
-      zip_code: row.zip_code,
-      latitude: parseFloat(row.latitude),
-      longitude: parseFloat(row.longitude),
-      distance_km: parseFloat(row.distance_km),
-    })) as Array<Store & { distance_km: number }>;
+    const now = new Date();
+
+    const allStores = storesResult.map((row) => {
+      const inventory = ((row.inventory_evidence ?? []) as InventoryEvidence[]).map((entry) =>
+        withConfidence(entry, confidenceParse.minConfidence, now)
+      );
+      const totalConfidence = inventory.reduce((sum, entry) => sum + entry.confidence, 0);
+
+      return {
+        id: row.id,
+        name: row.name,
+        store_type: row.store_type,
+        address: row.address,
+        city: row.city,
+        state: row.state,
+        zip_code: row.zip_code,
+        latitude: parseFloat(row.latitude),
+        longitude: parseFloat(row.longitude),
+        phone: row.phone,
+        hours_json: row.hours_json,
+        open_now: isStoreOpenNow(row),
+        distance_km: parseFloat(row.distance_km),
+        drink_count: inventory.filter((entry) => !entry.stale).length,
+        inventory_confidence:
+          inventory.length > 0 ? Math.round((totalConfidence / inventory.length) * 100) / 100 : null,
+      } as NearbyStore;
+    });
+
+    const stores = openNow ? allStores.filter((store) => store.open_now === true).slice(0, limit) : allStores;
 
     return NextResponse.json<NearbyStoresResponse>(
       {
@@ -2,7 +2,8 @@
 
 import { useEffect, useRef, useState } from 'react';
 import { BrowserMultiFormatReader, NotFoundException } from '@zxing/library';
-import type { EnergyDrink, ScanResponse } from '@/types';
+import NewProductForm from '@/components/NewProductForm';
+import type { EnergyDrink, ScanResponse, StockReportResult } from '@/types';
 
 export default function ScanPage() {
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -10,6 +11,11 @@ export default function ScanPage() {
   const [scannedDrink, setScannedDrink] = useState<EnergyDrink | null>(null);
   const [error, setError] = useState<string>('');
   const [isLoading, setIsLoading] = useState(false);
+  const [unknownBarcode, setUnknownBarcode] = useState<string | null>(null);
+  const [showNewProductForm, setShowNewProductForm] = useState(false);
+  // Scanning a drink normally marks it in stock; this reports it missing from the shelf instead
+  const [reportingOutOfStock, setReportingOutOfStock] = useState(false);
+  const [stockReport, setStockReport] = useState<StockReportResult | null>(null);
   const codeReaderRef = useRef<BrowserMultiFormatReader | null>(null);
 
   useEffect(() => {
@@ -24,7 +30,10 @@ export default function ScanPage() {
   const startScanning = async () => {
     setError('');
     setScannedDrink(null);
+    setStockReport(null);
     setIsLoading(false);
+    setUnknownBarcode(null);
+    setShowNewProductForm(false);
 
     try {
       // Check if we have camera permission
@@ -129,6 +138,7 @@ export default function ScanPage() {
           barcode,
           latitude,
           longitude,
+          ...(reportingOutOfStock && { in_stock: false }),
         }),
       });
 
@@ -136,6 +146,10 @@ export default function ScanPage() {
 
       if (data.success && data.data) {
         setScannedDrink(data.data.drink);
+        setStockReport(data.data.stock_report ?? null);
+      } else if (response.status === 404 && data.pending_product_id) {
+        // Unknown barcode - let the user add it
+        setUnknownBarcode(barcode);
       } else {
         setError(data.message || 'Drink not found in our database');
       }
@@ -153,6 +167,15 @@ export default function ScanPage() {
     startScanning();
   };
 
+  // Show the new drink without scanning it again: without a store and a price the
+  // scan would list it at the nearest store for nothing, or report it out of stock
+  const handleNewProductCreated = (drink: EnergyDrink) => {
+    setUnknownBarcode(null);
+    setShowNewProductForm(false);
+    setStockReport(null);
+    setScannedDrink(drink);
+  };
+
   return (
     <div className="min-h-screen bg-zinc-50 dark:bg-black">
       <div className="max-w-2xl mx-auto p-4">
@@ -160,9 +183,29 @@ export default function ScanPage() {
           Scan Energy Drink
         </h1>
 
+        {/* Scan mode */}
+        <div className="flex rounded-lg border border-zinc-200 dark:border-zinc-800 overflow-hidden mb-4 text-sm font-medium">
+          <button
+            onClick={() => setReportingOutOfStock(false)}
+            className={`flex-1 px-4 py-2 transition-colors ${
+              !reportingOutOfStock ? 'bg-blue-600 text-white' : 'text-zinc-600 dark:text-zinc-400'
+            }`}
+          >
+            It&apos;s on the shelf
+          </button>
+          <button
+            onClick={() => setReportingOutOfStock(true)}
+            className={`flex-1 px-4 py-2 transition-colors ${
+              reportingOutOfStock ? 'bg-red-600 text-white' : 'text-zinc-600 dark:text-zinc-400'
+            }`}
+          >
+            Report out of stock
+          </button>
+        </div>
+
         {/* Camera View */}
         <div className="relative bg-black rounded-lg overflow-hidden mb-4" style={{ minHeight: '400px' }}>
-          {!isScanning && !scannedDrink && !error && (
+          {!isScanning && !scannedDrink && !error && !unknownBarcode && (
             <div className="absolute inset-0 flex items-center justify-center">
               <button
                 onClick={startScanning}
@@ -223,13 +266,57 @@ export default function ScanPage() {
           </div>
         )}
 
+        {/* Unknown Barcode */}
+        {unknownBarcode && (
+          <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-4 mb-4">
+            {showNewProductForm ? (
+              <NewProductForm
+                barcode={unknownBarcode}
+                onCreated={handleNewProductCreated}
+                onCancel={() => setShowNewProductForm(false)}
+              />
+            ) : (
+              <>
+                <p className="text-amber-800 dark:text-amber-200 font-medium">
+                  Barcode {unknownBarcode} isn&apos;t in our database yet.
+                </p>
+                <div className="mt-2 flex gap-4">
+                  <button
+                    onClick={() => setShowNewProductForm(true)}
+                    className="text-amber-700 dark:text-amber-300 underline font-medium"
+                  >
+                    Add this product
+                  </button>
+                  <button
+                    onClick={scanAgain}
+                    className="text-amber-700 dark:text-amber-300 underline"
+                  >
+                    Scan another
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
         {/* Drink Information */}
         {scannedDrink && (
           <div className="bg-white dark:bg-zinc-900 rounded-lg shadow-lg p-6 border border-zinc-200 dark:border-zinc-800">
             <h2 className="text-2xl font-bold mb-4 text-black dark:text-white">
-              Found Drink!
+              {stockReport ? 'Reported Out of Stock' : 'Found Drink!'}
             </h2>
 
+            {stockReport && (
+              <p className="mb-4 text-sm text-zinc-600 dark:text-zinc-400">
+                {!stockReport.listed
+                  ? "Thanks! This store doesn't list it yet, so there was nothing to mark out of stock."
+                  : stockReport.in_stock
+                    ? `Thanks! It will be marked out of stock once ${stockReport.reports_to_flip} reports on different days agree ` +
+                      `(${stockReport.agreeing_reports} so far).`
+                    : 'Thanks! It is now marked out of stock at this store.'}
+              </p>
+            )}
+
             {scannedDrink.image_url && (
               <img
                 src={scannedDrink.image_url}
@@ -1,10 +1,11 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Search } from 'lucide-react';
+import { Search, X } from 'lucide-react';
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import type { DrinkSuggestion, TextRange } from '@/types';
 
-interface Drink {
+export interface Drink {
   id: number;
   brand: string;
   flavor: string;
@@ -13,10 +14,35 @@ interface Drink {
   image_url: string | null;
 }
 
-export default function DrinkSearch() {
+interface DrinkSearchProps {
+  onSelectionChange?: (drink: Drink | null) => void;
+}
+
+/**
+ * Text with the ranges the query matched in bold
+ */
+function Highlighted({ text, ranges }: { text: string; ranges: TextRange[] }) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  for (const range of ranges) {
+    parts.push(text.slice(position, range.start));
+    parts.push(
+      <mark key={range.start} className="bg-transparent text-purple-300 font-bold">
+        {text.slice(range.start, range.end)}
+      </mark>
+    );
+    position = range.end;
+  }
+  parts.push(text.slice(position));
+
+  return <>{parts}</>;
+}
+
+export default function DrinkSearch({ onSelectionChange }: DrinkSearchProps) {
   const [open, setOpen] = useState(false);
   const [query, setQuery] = useState('');
-  const [drinks, setDrinks] = useState<Drink[]>([]);
+  const [drinks, setDrinks] = useState<DrinkSuggestion[]>([]);
   const [loading, setLoading] = useState(false);
   const [selectedDrink, setSelectedDrink] = useState<Drink | null>(null);
 
@@ -51,19 +77,43 @@ export default function DrinkSearch() {
     setSelectedDrink(drink);
     setQuery(`${drink.brand} ${drink.flavor}`);
     setOpen(false);
+    onSelectionChange?.(drink);
+  };
+
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+
+    // Clearing the input also clears the selected drink
+    if (value.length === 0 && selectedDrink) {
+      setSelectedDrink(null);
+      onSelectionChange?.(null);
+    }
   };
 
   return (
     <div className="relative w-full max-w-2xl">
-      <Command className="rounded-lg border border-purple-500/30 bg-black/40 backdrop-blur-sm shadow-2xl shadow-purple-500/20">
+      {/* Results are ranked by the API, so cmdk's own filtering is turned off */}
+      <Command
+        shouldFilter={false}
+        className="rounded-lg border border-purple-500/30 bg-black/40 backdrop-blur-sm shadow-2xl shadow-purple-500/20"
+      >
         <div className="flex items-center border-b border-purple-500/20 px-3">
           <Search className="mr-2 h-4 w-4 shrink-0 text-purple-400" />
           <CommandInput
             placeholder="type your drink..."
             value={query}
-            onValueChange={setQuery}
+            onValueChange={handleQueryChange}
             className="flex h-14 w-full rounded-md bg-transparent py-3 text-lg outline-none placeholder:text-zinc-500 disabled:cursor-not-allowed disabled:opacity-50 text-white border-0"
           />
+          {query && (
+            <button
+              onClick={() => handleQueryChange('')}
+              className="ml-2 text-zinc-500 hover:text-white"
+              aria-label="Clear search"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
         </div>
         {open && (
           <CommandList className="max-h-[300px]">
@@ -84,8 +134,22 @@ export default function DrinkSearch() {
                     >
                       <div className="flex items-center justify-between w-full">
                         <div>
-                          <div className="font-semibold text-white">{drink.brand}</div>
-                          <div className="text-sm text-zinc-400">{drink.flavor}</div>
+                          <div className="font-semibold text-white">
+                            <Highlighted text={drink.brand} ranges={drink.highlights.brand} />
+                          </div>
+                          <div className="text-sm text-zinc-400">
+                            <Highlighted text={drink.flavor} ranges={drink.highlights.flavor} />
+                          </div>
+                          {drink.alias && (
+                            <div className="text-xs text-zinc-500">
+                              aka <Highlighted text={drink.alias} ranges={drink.highlights.alias} />
+                            </div>
+                          )}
+                          {drink.barcode && drink.highlights.barcode.length > 0 && (
+                            <div className="text-xs text-zinc-500 font-mono">
+                              <Highlighted text={drink.barcode} ranges={drink.highlights.barcode} />
+                            </div>
+                          )}
                         </div>
                         <div className="flex flex-col items-end text-xs text-zinc-500">
                           <span>{drink.size_ml}ml</span>
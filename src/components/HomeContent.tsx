@@ -2,7 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import dynamic from 'next/dynamic';
-import DrinkSearch from '@/components/DrinkSearch';
+import DrinkSearch, { type Drink } from '@/components/DrinkSearch';
 import { Zap } from 'lucide-react';
 
 // Dynamically import MapView to avoid SSR issues with mapbox-gl
@@ -17,6 +17,7 @@ const MapView = dynamic(() => import('@/components/MapView'), {
 
 export default function HomeContent() {
   const [stats, setStats] = useState({ stores: 0, drinks: 0 });
+  const [selectedDrink, setSelectedDrink] = useState<Drink | null>(null);
 
   useEffect(() => {
     // Fetch store count
@@ -69,7 +70,7 @@ export default function HomeContent() {
               </p>
             </div>
 
-            <DrinkSearch />
+            <DrinkSearch onSelectionChange={setSelectedDrink} />
 
             {/* Info Cards */}
             <div className="grid grid-cols-2 gap-4 mt-4">
@@ -90,7 +91,7 @@ export default function HomeContent() {
 
           {/* Right Panel - Map */}
           <div className="h-full min-h-[500px] lg:min-h-0">
-            <MapView />
+            <MapView selectedDrink={selectedDrink} />
           </div>
         </div>
       </main>
@@ -1,20 +1,133 @@
 'use client';
 
-import { useEffect, useState } from 'react';
-import Map, { Marker, NavigationControl } from 'react-map-gl/maplibre';
-import { MapPin } from 'lucide-react';
-import type { Store } from '@/types';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import Map, { Marker, NavigationControl, type MapRef } from 'react-map-gl/maplibre';
+import { Clock, MapPin, ScanBarcode, TriangleAlert } from 'lucide-react';
+import type { Drink } from '@/components/DrinkSearch';
+import { formatReportAge, getFreshness, type Freshness } from '@/lib/freshness';
+import { getTodayHours } from '@/lib/hours';
+import {
+  CLUSTER_MAX_ZOOM,
+  isInBounds,
+  parentTile,
+  tileKey,
+  tilesInBounds,
+  tileToBounds,
+  type Tile,
+} from '@/lib/map-tiles';
+import { STORE_TYPE_LABELS } from '@/lib/store-types';
+import type { SearchResult, StockReportResult, Store, StoreCluster, StoreDetail, StoreInventoryItem } from '@/types';
 
 interface MapViewProps {
   latitude?: number;
   longitude?: number;
+  selectedDrink?: Drink | null;
 }
 
 // Pensacola, FL default coordinates
 const PENSACOLA_LAT = 30.4213;
 const PENSACOLA_LNG = -87.2169;
 
-export default function MapView({ latitude = PENSACOLA_LAT, longitude = PENSACOLA_LNG }: MapViewProps) {
+// How far around the map center to look for stores carrying the selected drink
+const DRINK_SEARCH_RADIUS_KM = 50;
+
+// Stores are fetched in tiles this many zoom levels below the map, so a viewport spans only a few
+const TILE_ZOOM_OFFSET = 2;
+// Wait for the map to settle before loading stores for the new viewport
+const LOAD_DEBOUNCE_MS = 300;
+// Refetch tiles older than this so newly added stores show up
+const TILE_CACHE_TTL_MS = 5 * 60 * 1000;
+
+interface CachedTile {
+  stores: Store[];
+  clusters: StoreCluster[];
+  /** The tile had more stores than the API returns in one request */
+  truncated: boolean;
+  fetchedAt: number;
+}
+
+// Clusters depend on the zoom they were built for and the drink they count stock of
+function cacheKey(tile: Tile, zoom: number, drinkId: number | null): string {
+  return zoom < CLUSTER_MAX_ZOOM ? `${tileKey(tile)}@${zoom}:${drinkId ?? ''}` : tileKey(tile);
+}
+
+// A tile from the cache; unclustered stores can also be cut from a cached ancestor tile after zooming in
+function getCachedTile(
+  cache: Record<string, CachedTile>,
+  tile: Tile,
+  zoom: number,
+  drinkId: number | null
+): CachedTile | null {
+  const now = Date.now();
+  const cached = cache[cacheKey(tile, zoom, drinkId)];
+
+  if (cached && now - cached.fetchedAt <= TILE_CACHE_TTL_MS) return cached;
+  if (zoom < CLUSTER_MAX_ZOOM) return null;
+
+  for (let z = tile.z - 1; z >= CLUSTER_MAX_ZOOM - TILE_ZOOM_OFFSET; z--) {
+    const ancestor = cache[tileKey(parentTile(tile, z))];
+
+    // A truncated ancestor may be missing stores that belong to this tile
+    if (!ancestor || now - ancestor.fetchedAt > TILE_CACHE_TTL_MS || ancestor.truncated) continue;
+
+    const bounds = tileToBounds(tile);
+    return {
+      ...ancestor,
+      stores: ancestor.stores.filter((store) => isInBounds(store.latitude, store.longitude, bounds)),
+    };
+  }
+
+  return null;
+}
+
+async function fetchTile(
+  cache: Record<string, CachedTile>,
+  tile: Tile,
+  zoom: number,
+  drinkId: number | null
+): Promise<CachedTile> {
+  const { west, south, east, north } = tileToBounds(tile);
+  const drinkParam = drinkId !== null && zoom < CLUSTER_MAX_ZOOM ? `&drink_id=${drinkId}` : '';
+  const response = await fetch(
+    `/api/stores/in-bounds?west=${west}&south=${south}&east=${east}&north=${north}&zoom=${zoom}${drinkParam}`
+  );
+  const data = await response.json();
+
+  if (!data.success || !data.data) {
+    throw new Error(data.message || 'Failed to load stores');
+  }
+
+  const entry: CachedTile = {
+    stores: data.data.stores,
+    clusters: data.data.clusters,
+    truncated: data.data.truncated,
+    fetchedAt: Date.now(),
+  };
+  cache[cacheKey(tile, zoom, drinkId)] = entry;
+
+  return entry;
+}
+
+const FRESHNESS_COLORS: Record<Freshness, string> = {
+  fresh: 'bg-green-400',
+  aging: 'bg-yellow-400',
+  stale: 'bg-zinc-500',
+};
+
+// Cluster marker diameter grows with the number of stores
+function clusterSizeClass(count: number): string {
+  if (count < 10) return 'w-9 h-9 text-xs';
+  if (count < 100) return 'w-11 h-11 text-sm';
+  return 'w-14 h-14 text-sm';
+}
+
+export default function MapView({
+  latitude = PENSACOLA_LAT,
+  longitude = PENSACOLA_LNG,
+  selectedDrink = null,
+}: MapViewProps) {
+  const mapRef = useRef<MapRef>(null);
   const [viewState, setViewState] = useState({
     latitude: latitude,
     longitude: longitude,
@@ -23,7 +136,87 @@ export default function MapView({ latitude = PENSACOLA_LAT, longitude = PENSACOL
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [stores, setStores] = useState<Store[]>([]);
   const [selectedStore, setSelectedStore] = useState<Store | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [storeDetail, setStoreDetail] = useState<StoreDetail | null>(null);
+  const [loadingDetail, setLoadingDetail] = useState(false);
+  // Drinks reported out of stock from the open panel, with the outcome to show
+  // Keyed by store and drink, and kept when a store is reopened so it can't be reported again
+  const [stockReports, setStockReports] = useState<Record<string, StockReportResult | 'sending'>>({});
+  const [loadingStores, setLoadingStores] = useState(false);
+  const [clusters, setClusters] = useState<StoreCluster[]>([]);
+  // The viewport is zoomed out far enough that stores are grouped into clusters
+  const [clustered, setClustered] = useState(false);
+  const [truncated, setTruncated] = useState(false);
+
+  // Stores by tile key ("z/x/y"), kept for the lifetime of the map
+  const tileCache = useRef<Record<string, CachedTile>>({});
+  const loadTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Incremented per load so a slow response can't overwrite a newer viewport
+  const loadRequest = useRef(0);
+  // Selected drink for cluster stock counts, read by the (stable) load callback
+  const drinkIdRef = useRef<number | null>(null);
+
+  // Stores carrying the selected drink (null when no drink is selected)
+  const [drinkResults, setDrinkResults] = useState<SearchResult[] | null>(null);
+  const [searchingDrink, setSearchingDrink] = useState(false);
+
+  // Load the stores in the current viewport, fetching only tiles that aren't cached
+  const loadStoresInView = useCallback(async () => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    const request = ++loadRequest.current;
+    const zoom = Math.floor(map.getZoom());
+    const drinkId = drinkIdRef.current;
+
+    const bounds = map.getBounds();
+    const tiles = tilesInBounds(
+      { south: bounds.getSouth(), west: bounds.getWest(), north: bounds.getNorth(), east: bounds.getEast() },
+      Math.max(0, zoom - TILE_ZOOM_OFFSET)
+    );
+
+    setLoadingStores(true);
+    try {
+      const tileData = await Promise.all(
+        tiles.map(
+          (tile) =>
+            getCachedTile(tileCache.current, tile, zoom, drinkId) ??
+            fetchTile(tileCache.current, tile, zoom, drinkId)
+        )
+      );
+
+      if (request !== loadRequest.current) return;
+
+      // Stores on a shared tile edge come back from both tiles
+      const storesById: Record<number, Store> = {};
+      const clustersById: Record<string, StoreCluster> = {};
+      tileData.forEach((data) => {
+        data.stores.forEach((store) => {
+          storesById[store.id] = store;
+        });
+        data.clusters.forEach((cluster) => {
+          clustersById[cluster.id] = cluster;
+        });
+      });
+
+      setStores(Object.values(storesById));
+      setClusters(Object.values(clustersById));
+      setClustered(zoom < CLUSTER_MAX_ZOOM);
+      setTruncated(tileData.some((data) => data.truncated));
+    } catch (error) {
+      console.error('Error fetching stores:', error);
+    } finally {
+      if (request === loadRequest.current) {
+        setLoadingStores(false);
+      }
+    }
+  }, []);
+
+  const scheduleLoad = useCallback(() => {
+    if (loadTimer.current) {
+      clearTimeout(loadTimer.current);
+    }
+    loadTimer.current = setTimeout(loadStoresInView, LOAD_DEBOUNCE_MS);
+  }, [loadStoresInView]);
 
   useEffect(() => {
     // Get user's current location
@@ -42,6 +235,7 @@ export default function MapView({ latitude = PENSACOLA_LAT, longitude = PENSACOL
             longitude: newLocation.lng,
             zoom: 12, // Zoom in when we have actual user location
           });
+          scheduleLoad();
         },
         (error) => {
           console.log('Geolocation error:', error);
@@ -50,62 +244,249 @@ export default function MapView({ latitude = PENSACOLA_LAT, longitude = PENSACOL
       );
     }
 
-    // Fetch all stores from API
-    fetchStores();
-  }, []);
+    return () => {
+      if (loadTimer.current) {
+        clearTimeout(loadTimer.current);
+      }
+    };
+  }, [scheduleLoad]);
+
+  // Load the full inventory of the store whose marker was clicked
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchStoreDetail = async () => {
+      if (!selectedStore) {
+        setStoreDetail(null);
+        return;
+      }
+
+      setStoreDetail(null);
+      setLoadingDetail(true);
+      try {
+        const response = await fetch(`/api/stores/${selectedStore.id}`);
+        const data = await response.json();
+
+        if (!cancelled) {
+          setStoreDetail(data.success && data.data?.store ? data.data.store : null);
+        }
+      } catch (error) {
+        console.error('Error fetching store details:', error);
+        if (!cancelled) {
+          setStoreDetail(null);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoadingDetail(false);
+        }
+      }
+    };
+
+    fetchStoreDetail();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedStore]);
+
+  const reportOutOfStock = async (storeId: number, item: StoreInventoryItem) => {
+    const reportKey = `${storeId}:${item.id}`;
+    setStockReports((current) => ({ ...current, [reportKey]: 'sending' }));
 
-  const fetchStores = async () => {
     try {
-      const response = await fetch('/api/stores/all');
+      const response = await fetch(`/api/stores/${storeId}/stock-reports`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ drink_id: item.id, in_stock: false }),
+      });
       const data = await response.json();
 
-      if (data.success && data.data?.stores) {
-        setStores(data.data.stores);
+      if (!data.success || !data.data?.report) {
+        throw new Error(data.message || 'Failed to report');
       }
+
+      const report: StockReportResult = data.data.report;
+      setStockReports((current) => ({ ...current, [reportKey]: report }));
+      setStoreDetail((current) =>
+        current && current.id === storeId
+          ? {
+              ...current,
+              inventory: current.inventory.map((entry) =>
+                entry.id === item.id ? { ...entry, in_stock: report.in_stock } : entry
+              ),
+            }
+          : current
+      );
     } catch (error) {
-      console.error('Error fetching stores:', error);
-    } finally {
-      setLoading(false);
+      console.error('Error reporting out of stock:', error);
+      setStockReports((current) => {
+        const next = { ...current };
+        delete next[reportKey];
+        return next;
+      });
     }
   };
 
+  // Reload clusters so they count stores stocking the newly selected drink
+  useEffect(() => {
+    drinkIdRef.current = selectedDrink?.id ?? null;
+    scheduleLoad();
+  }, [selectedDrink, scheduleLoad]);
+
+  // Search for stores carrying the selected drink whenever the selection changes
+  useEffect(() => {
+    const searchLat = userLocation?.lat ?? latitude;
+    const searchLng = userLocation?.lng ?? longitude;
+    let cancelled = false;
+
+    const fetchDrinkResults = async () => {
+      setSelectedStore(null);
+
+      if (!selectedDrink) {
+        setDrinkResults(null);
+        return;
+      }
+
+      setSearchingDrink(true);
+      try {
+        const response = await fetch(
+          `/api/search?drink_id=${selectedDrink.id}&latitude=${searchLat}&longitude=${searchLng}&radius=${DRINK_SEARCH_RADIUS_KM}`
+        );
+        const data = await response.json();
+
+        if (!cancelled) {
+          setDrinkResults(data.success && data.data?.results ? data.data.results : []);
+        }
+      } catch (error) {
+        console.error('Error searching stores for drink:', error);
+        if (!cancelled) {
+          setDrinkResults([]);
+        }
+      } finally {
+        if (!cancelled) {
+          setSearchingDrink(false);
+        }
+      }
+    };
+
+    fetchDrinkResults();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedDrink, userLocation, latitude, longitude]);
+
+  // Fit the map to the stores carrying the selected drink
+  useEffect(() => {
+    if (!drinkResults || drinkResults.length === 0 || !mapRef.current) return;
+
+    const lngs = drinkResults.map((store) => store.longitude);
+    const lats = drinkResults.map((store) => store.latitude);
+
+    mapRef.current.fitBounds(
+      [
+        [Math.min(...lngs), Math.min(...lats)],
+        [Math.max(...lngs), Math.max(...lats)],
+      ],
+      { padding: 80, maxZoom: 14, duration: 800 }
+    );
+  }, [drinkResults]);
+
+  // Inventory entry for the selected drink at a given store, if any
+  const getDrinkEntry = (store: Store) => {
+    if (!drinkResults || !selectedDrink) return undefined;
+    const result = drinkResults.find((r) => r.id === store.id);
+    return result?.available_drinks.find((d) => d.id === selectedDrink.id);
+  };
+
+  const expandCluster = (cluster: StoreCluster) => {
+    const { south, west, north, east } = cluster.bounds;
+
+    mapRef.current?.fitBounds(
+      [
+        [west, south],
+        [east, north],
+      ],
+      { padding: 80, maxZoom: CLUSTER_MAX_ZOOM, duration: 800 }
+    );
+  };
+
+  // With a drink selected only the stores carrying it get a marker; zoomed out,
+  // the clusters count them instead, except for stores too far apart to cluster
+  const visibleStores: Store[] = drinkResults
+    ? clustered
+      ? drinkResults.filter((result) => stores.some((store) => store.id === result.id))
+      : drinkResults
+    : stores;
+  const selectedHours = selectedStore ? getTodayHours(selectedStore) : null;
+
   return (
     <div className="w-full h-full rounded-lg overflow-hidden border border-purple-500/30 shadow-xl shadow-purple-500/10">
-      {loading ? (
-        <div className="w-full h-full flex items-center justify-center bg-zinc-900">
-          <div className="text-center">
-            <div className="inline-block animate-spin rounded-full h-12 w-12 border-4 border-purple-600 border-t-transparent mb-4"></div>
-            <p className="text-zinc-400">Loading map...</p>
-          </div>
-        </div>
-      ) : (
-        <Map
-          {...viewState}
-          onMove={(evt) => setViewState(evt.viewState)}
-          style={{ width: '100%', height: '100%' }}
-          mapStyle="https://basemaps.cartocdn.com/gl/dark-matter-gl-style/style.json"
-        >
-          {/* Navigation controls */}
-          <NavigationControl position="top-right" />
-
-          {/* User location marker - only show if we have user's location */}
-          {userLocation && (
-            <Marker
-              latitude={userLocation.lat}
-              longitude={userLocation.lng}
-              anchor="center"
-            >
-              <div className="relative">
-                <div className="absolute inset-0 bg-blue-500/30 rounded-full animate-ping" />
-                <div className="relative bg-blue-500 p-2 rounded-full border-4 border-white shadow-xl">
-                  <div className="w-2 h-2" />
-                </div>
+      <Map
+        ref={mapRef}
+        {...viewState}
+        onMove={(evt) => setViewState(evt.viewState)}
+        onLoad={scheduleLoad}
+        onMoveEnd={scheduleLoad}
+        style={{ width: '100%', height: '100%' }}
+        mapStyle="https://basemaps.cartocdn.com/gl/dark-matter-gl-style/style.json"
+      >
+        {/* Navigation controls */}
+        <NavigationControl position="top-right" />
+
+        {/* User location marker - only show if we have user's location */}
+        {userLocation && (
+          <Marker
+            latitude={userLocation.lat}
+            longitude={userLocation.lng}
+            anchor="center"
+          >
+            <div className="relative">
+              <div className="absolute inset-0 bg-blue-500/30 rounded-full animate-ping" />
+              <div className="relative bg-blue-500 p-2 rounded-full border-4 border-white shadow-xl">
+                <div className="w-2 h-2" />
               </div>
-            </Marker>
-          )}
+            </div>
+          </Marker>
+        )}
+
+        {/* Cluster markers, expanded on click */}
+        {clusters.map((cluster) => (
+          <Marker
+            key={cluster.id}
+            latitude={cluster.latitude}
+            longitude={cluster.longitude}
+            anchor="center"
+            onClick={(e) => {
+              e.originalEvent.stopPropagation();
+              expandCluster(cluster);
+            }}
+          >
+            <div className="relative cursor-pointer group">
+              <div
+                className={`flex items-center justify-center rounded-full bg-purple-600/90 border-2 border-purple-300/60 text-white font-bold shadow-lg transition-all group-hover:scale-110 group-hover:bg-purple-500 ${clusterSizeClass(cluster.count)}`}
+              >
+                {cluster.count}
+              </div>
+              {selectedDrink && (
+                <div
+                  className={`absolute -top-2 left-1/2 ml-2 px-1.5 py-0.5 rounded-full text-[10px] font-semibold whitespace-nowrap shadow-lg ${
+                    cluster.stocking_count > 0 ? 'bg-white text-purple-700' : 'bg-zinc-700 text-zinc-400'
+                  }`}
+                >
+                  {cluster.stocking_count} in stock
+                </div>
+              )}
+            </div>
+          </Marker>
+        ))}
 
-          {/* Store markers */}
-          {stores.map((store) => (
+        {/* Store markers */}
+        {visibleStores.map((store) => {
+          const entry = getDrinkEntry(store);
+          const outOfStock = entry ? !entry.in_stock : false;
+
+          return (
             <Marker
               key={store.id}
               latitude={store.latitude}
@@ -116,34 +497,172 @@ export default function MapView({ latitude = PENSACOLA_LAT, longitude = PENSACOL
                 setSelectedStore(store);
               }}
             >
-              <div className="cursor-pointer group">
-                <div className="bg-purple-600 p-2.5 rounded-full shadow-lg group-hover:bg-purple-500 transition-all group-hover:scale-110">
+              <div className="cursor-pointer group flex flex-col items-center">
+                {entry && (
+                  <div
+                    className={`mb-1 px-2 py-0.5 rounded-full text-xs font-semibold shadow-lg ${
+                      outOfStock
+                        ? 'bg-zinc-700 text-zinc-400 line-through'
+                        : 'bg-white text-purple-700'
+                    }`}
+                  >
+                    ${Number(entry.price).toFixed(2)}
+                  </div>
+                )}
+                <div
+                  className={`p-2.5 rounded-full shadow-lg transition-all group-hover:scale-110 ${
+                    outOfStock
+                      ? 'bg-zinc-600 group-hover:bg-zinc-500'
+                      : 'bg-purple-600 group-hover:bg-purple-500'
+                  }`}
+                >
                   <MapPin className="w-5 h-5 text-white fill-white" />
                 </div>
               </div>
             </Marker>
-          ))}
-
-          {/* Store info popup */}
-          {selectedStore && (
-            <div className="absolute top-4 left-4 z-10 bg-black/90 backdrop-blur-sm px-4 py-3 rounded-lg border border-purple-500/30 shadow-xl max-w-sm">
-              <button
-                onClick={() => setSelectedStore(null)}
-                className="absolute top-2 right-2 text-zinc-400 hover:text-white"
-              >
-                ✕
-              </button>
-              <h3 className="text-white font-semibold mb-1">{selectedStore.name}</h3>
-              <p className="text-sm text-zinc-300">
-                {selectedStore.address}
+          );
+        })}
+
+        {/* Viewport loading status */}
+        {!selectedDrink && (loadingStores || truncated) && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 bg-black/90 backdrop-blur-sm px-3 py-1.5 rounded-full border border-purple-500/30 shadow-xl text-xs text-zinc-400">
+            {loadingStores ? 'Loading stores...' : 'Showing some of the stores here, zoom in to see all'}
+          </div>
+        )}
+
+        {/* Selected drink summary */}
+        {selectedDrink && (
+          <div className="absolute bottom-4 left-4 z-10 bg-black/90 backdrop-blur-sm px-4 py-2 rounded-lg border border-purple-500/30 shadow-xl text-sm">
+            {searchingDrink ? (
+              <span className="text-zinc-400">Finding stores...</span>
+            ) : drinkResults && drinkResults.length > 0 ? (
+              <span className="text-zinc-300">
+                <span className="text-purple-400 font-semibold">{drinkResults.length}</span>{' '}
+                {drinkResults.length === 1 ? 'store carries' : 'stores carry'} {selectedDrink.brand}{' '}
+                {selectedDrink.flavor}
+              </span>
+            ) : (
+              <span className="text-zinc-400">
+                No nearby stores carry {selectedDrink.brand} {selectedDrink.flavor}
+              </span>
+            )}
+          </div>
+        )}
+
+        {/* Store detail panel */}
+        {selectedStore && (
+          <div className="absolute top-4 left-4 z-10 bg-black/90 backdrop-blur-sm px-4 py-3 rounded-lg border border-purple-500/30 shadow-xl w-80 max-w-[calc(100%-2rem)]">
+            <button
+              onClick={() => setSelectedStore(null)}
+              className="absolute top-2 right-2 text-zinc-400 hover:text-white"
+            >
+              ✕
+            </button>
+            <h3 className="text-white font-semibold mb-1">{selectedStore.name}</h3>
+            {selectedStore.store_type && (
+              <p className="text-xs text-purple-300 mb-1">{STORE_TYPE_LABELS[selectedStore.store_type]}</p>
+            )}
+            <p className="text-sm text-zinc-300">
+              {selectedStore.address}
+            </p>
+            <p className="text-sm text-zinc-400">
+              {selectedStore.city}, {selectedStore.state} {selectedStore.zip_code}
+            </p>
+            {selectedHours && (
+              <p className="text-sm text-zinc-400 mt-1 flex items-center gap-1.5">
+                <Clock className="w-3.5 h-3.5" />
+                <span>Today: {selectedHours}</span>
+                {selectedStore.open_now !== null && selectedStore.open_now !== undefined && (
+                  <span className={selectedStore.open_now ? 'text-green-400' : 'text-red-400'}>
+                    • {selectedStore.open_now ? 'Open now' : 'Closed'}
+                  </span>
+                )}
               </p>
-              <p className="text-sm text-zinc-400">
-                {selectedStore.city}, {selectedStore.state} {selectedStore.zip_code}
+            )}
+            {storeDetail?.possibly_closed_at && (
+              <p className="text-xs text-yellow-400 mt-1 flex items-center gap-1.5">
+                <TriangleAlert className="w-3.5 h-3.5" />
+                May have closed (no longer on OpenStreetMap)
               </p>
+            )}
+
+            {/* Inventory, cheapest first with stale entries last */}
+            <div className="mt-3 pt-2 border-t border-purple-500/20">
+              <p className="text-xs uppercase tracking-wide text-zinc-500 mb-1">Drinks</p>
+              {loadingDetail ? (
+                <p className="text-sm text-zinc-500">Loading drinks...</p>
+              ) : storeDetail && storeDetail.inventory.length > 0 ? (
+                <ul className="max-h-56 overflow-y-auto space-y-1.5 pr-1">
+                  {storeDetail.inventory.map((item) => {
+                    const freshness = getFreshness(item.last_updated);
+                    const isSelectedDrink = item.id === selectedDrink?.id;
+                    const stockReport = stockReports[`${selectedStore.id}:${item.id}`];
+
+                    return (
+                      <li
+                        key={item.id}
+                        className={`flex items-start justify-between gap-3 text-sm ${item.stale ? 'opacity-60' : ''}`}
+                        title={`Confidence ${Math.round(item.confidence * 100)}%`}
+                      >
+                        <div className="min-w-0">
+                          <p
+                            className={`truncate ${
+                              isSelectedDrink
+                                ? 'text-purple-300 font-semibold'
+                                : item.in_stock
+                                  ? 'text-zinc-200'
+                                  : 'text-zinc-500'
+                            }`}
+                          >
+                            {item.brand} {item.flavor}
+                          </p>
+                          <p className="text-xs text-zinc-500 flex items-center gap-1.5">
+                            <span className={`inline-block w-2 h-2 rounded-full ${FRESHNESS_COLORS[freshness]}`} />
+                            {formatReportAge(item.last_updated)}
+                            {item.confirmations > 1 && <span>• {item.confirmations} reports</span>}
+                            {item.stale && <span>• may be outdated</span>}
+                            {!item.in_stock && <span>• out of stock</span>}
+                          </p>
+                          {stockReport && stockReport !== 'sending' ? (
+                            <p className="text-xs text-purple-300">
+                              {stockReport.in_stock
+                                ? `Thanks! ${stockReport.agreeing_reports} of ${stockReport.reports_to_flip} days of reports needed`
+                                : 'Thanks for the report'}
+                            </p>
+                          ) : (
+                            item.in_stock && (
+                              <button
+                                onClick={() => reportOutOfStock(selectedStore.id, item)}
+                                disabled={stockReport === 'sending'}
+                                className="text-xs text-zinc-400 hover:text-red-400 underline disabled:opacity-50"
+                              >
+                                {stockReport === 'sending' ? 'Reporting...' : 'Report out of stock'}
+                              </button>
+                            )
+                          )}
+                        </div>
+                        <span className={`shrink-0 ${item.in_stock ? 'text-white' : 'text-zinc-500 line-through'}`}>
+                          ${Number(item.price).toFixed(2)}
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              ) : (
+                <p className="text-sm text-zinc-500">No drinks reported here yet</p>
+              )}
+
+              <Link
+                href={`/add?store_id=${selectedStore.id}`}
+                className="mt-3 inline-flex items-center gap-1.5 text-sm text-purple-400 hover:text-purple-300"
+              >
+                <ScanBarcode className="w-4 h-4" />
+                Scan drinks at this store
+              </Link>
             </div>
-          )}
-        </Map>
-      )}
+          </div>
+        )}
+      </Map>
     </div>
   );
 }
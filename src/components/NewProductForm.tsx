@@ -0,0 +1,197 @@
+'use client';
+
+import { useState } from 'react';
+import type { EnergyDrink } from '@/types';
+import type { NewProductResponse } from '@/app/api/scan/new-product/route';
+
+interface NewProductFormProps {
+  barcode: string;
+  storeId?: number | null;
+  storeName?: string;
+  defaultPrice?: string;
+  onCreated: (drink: EnergyDrink, price?: number) => void;
+  onCancel: () => void;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-zinc-300 dark:border-zinc-700 rounded-lg bg-white dark:bg-zinc-800 text-black dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+const labelClassName = 'block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1';
+
+/**
+ * Form for creating a drink from an unknown barcode.
+ * When a store is given, the new drink is added to that store's inventory as well.
+ */
+export default function NewProductForm({
+  barcode,
+  storeId,
+  storeName,
+  defaultPrice = '',
+  onCreated,
+  onCancel,
+}: NewProductFormProps) {
+  const [formData, setFormData] = useState({
+    brand: '',
+    flavor: '',
+    size_ml: '',
+    caffeine_mg: '',
+    sugar_g: '',
+    calories: '',
+    price: defaultPrice,
+  });
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError('');
+
+    const price = formData.price ? parseFloat(formData.price) : undefined;
+
+    try {
+      const response = await fetch('/api/scan/new-product', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          barcode,
+          brand: formData.brand,
+          flavor: formData.flavor,
+          size_ml: parseInt(formData.size_ml),
+          caffeine_mg: formData.caffeine_mg ? parseInt(formData.caffeine_mg) : undefined,
+          sugar_g: formData.sugar_g ? parseFloat(formData.sugar_g) : undefined,
+          calories: formData.calories ? parseInt(formData.calories) : undefined,
+          store_id: storeId ?? undefined,
+          price,
+        }),
+      });
+
+      const data: NewProductResponse = await response.json();
+
+      if (data.success && data.data) {
+        onCreated(data.data.drink, price);
+      } else {
+        setError(data.message || 'Failed to create drink');
+      }
+    } catch (err) {
+      console.error('Error creating drink:', err);
+      setError('Failed to create drink. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div>
+        <p className="font-semibold text-black dark:text-white">New product</p>
+        <p className="text-xs text-zinc-500 dark:text-zinc-500">
+          UPC: {barcode}
+          {storeName && ` • will be added to ${storeName}`}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClassName}>Brand</label>
+          <input
+            value={formData.brand}
+            onChange={(e) => setFormData({ ...formData, brand: e.target.value })}
+            required
+            placeholder="e.g., Monster"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Flavor</label>
+          <input
+            value={formData.flavor}
+            onChange={(e) => setFormData({ ...formData, flavor: e.target.value })}
+            required
+            placeholder="e.g., Ultra White"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Size (ml)</label>
+          <input
+            type="number"
+            min="1"
+            value={formData.size_ml}
+            onChange={(e) => setFormData({ ...formData, size_ml: e.target.value })}
+            required
+            placeholder="e.g., 473"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Caffeine (mg)</label>
+          <input
+            type="number"
+            min="0"
+            value={formData.caffeine_mg}
+            onChange={(e) => setFormData({ ...formData, caffeine_mg: e.target.value })}
+            placeholder="e.g., 160"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Sugar (g)</label>
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            value={formData.sugar_g}
+            onChange={(e) => setFormData({ ...formData, sugar_g: e.target.value })}
+            placeholder="e.g., 0"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Calories</label>
+          <input
+            type="number"
+            min="0"
+            value={formData.calories}
+            onChange={(e) => setFormData({ ...formData, calories: e.target.value })}
+            placeholder="e.g., 10"
+            className={inputClassName}
+          />
+        </div>
+        {storeId && (
+          <div className="col-span-2">
+            <label className={labelClassName}>Price</label>
+            <input
+              type="number"
+              step="0.01"
+              min="0.01"
+              value={formData.price}
+              onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+              required
+              placeholder="e.g., 3.99"
+              className={inputClassName}
+            />
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-700 dark:text-red-300">{error}</p>}
+
+      <div className="flex gap-2 justify-end">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-zinc-600 dark:text-zinc-400 hover:text-black dark:hover:text-white"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={submitting}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-semibold rounded-lg transition-colors"
+        >
+          {submitting ? 'Saving...' : storeId ? 'Create & Add to Store' : 'Create Drink'}
+        </button>
+      </div>
+    </form>
+  );
+}
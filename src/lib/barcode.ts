@@ -0,0 +1,116 @@
+/**
+ * Barcode validation and normalization
+ *
+ * Supports UPC-A (12 digits), EAN-13 (13 digits), EAN-8 (8 digits) and GTIN-14.
+ * Every barcode is stored and looked up as a zero-padded GTIN-14, so the same
+ * product scanned as UPC-A `070847811169` or EAN-13 `0070847811169` matches.
+ *
+ * Docs: https://www.gs1.org/services/how-calculate-check-digit-manually
+ */
+
+export type BarcodeFormat = 'EAN-8' | 'UPC-A' | 'EAN-13' | 'GTIN-14';
+
+export interface ParsedBarcode {
+  format: BarcodeFormat;
+  /** Digits as scanned, without spaces or dashes */
+  raw: string;
+  /** Zero-padded 14-digit form used for storage and lookups */
+  gtin14: string;
+}
+
+export type BarcodeValidation =
+  | { valid: true; barcode: ParsedBarcode }
+  | { valid: false; error: string };
+
+const FORMATS_BY_LENGTH: Record<number, BarcodeFormat> = {
+  8: 'EAN-8',
+  12: 'UPC-A',
+  13: 'EAN-13',
+  14: 'GTIN-14',
+};
+
+/**
+ * Calculate the GS1 check digit for a string of digits (without the check digit)
+ *
+ * Working from the rightmost digit, digits are weighted 3, 1, 3, 1, ...
+ */
+export function calculateCheckDigit(digits: string): number {
+  let sum = 0;
+
+  for (let i = 0; i < digits.length; i++) {
+    const digit = parseInt(digits[digits.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Validate a scanned or typed barcode
+ *
+ * @param input - Barcode string; spaces and dashes are ignored
+ * @returns The parsed barcode, or an error message describing why it is invalid
+ */
+export function validateBarcode(input: string): BarcodeValidation {
+  const raw = (input ?? '').replace(/[\s-]/g, '');
+
+  if (!raw) {
+    return { valid: false, error: 'Barcode cannot be empty' };
+  }
+
+  if (!/^\d+$/.test(raw)) {
+    return { valid: false, error: `Barcode must contain only digits: ${input}` };
+  }
+
+  const format = FORMATS_BY_LENGTH[raw.length];
+
+  if (!format) {
+    return {
+      valid: false,
+      error: `Barcode must be 8 (EAN-8), 12 (UPC-A), 13 (EAN-13) or 14 (GTIN-14) digits, got ${raw.length}`,
+    };
+  }
+
+  const expected = calculateCheckDigit(raw.slice(0, -1));
+  const actual = parseInt(raw[raw.length - 1]);
+
+  if (expected !== actual) {
+    return {
+      valid: false,
+      error: `Invalid ${format} check digit for ${raw}: expected ${expected}, got ${actual}`,
+    };
+  }
+
+  return {
+    valid: true,
+    barcode: {
+      format,
+      raw,
+      gtin14: raw.padStart(14, '0'),
+    },
+  };
+}
+
+/**
+ * Check whether a barcode is a valid UPC-A, EAN-13, EAN-8 or GTIN-14
+ */
+export function isValidBarcode(input: string): boolean {
+  return validateBarcode(input).valid;
+}
+
+/**
+ * Normalize a barcode to its GTIN-14 form
+ *
+ * @param input - UPC-A, EAN-13, EAN-8 or GTIN-14 barcode
+ * @returns 14-digit zero-padded GTIN
+ * @throws Error if the barcode is malformed or has a wrong check digit
+ */
+export function normalizeBarcode(input: string): string {
+  const result = validateBarcode(input);
+
+  if (!result.valid) {
+    throw new Error(result.error);
+  }
+
+  return result.barcode.gtin14;
+}
@@ -0,0 +1,75 @@
+/**
+ * How much to trust an inventory entry
+ *
+ * An entry's confidence (0 to 1) combines three things:
+ * - Age: it halves every 21 days since the latest report
+ * - Confirmations: independent reports (on different days) that agree with the entry
+ *   raise it from 0.75 for a single report towards 1
+ * - Conflicts: reports that disagree about availability scale it by the share of
+ *   reports that agree
+ *
+ * Confirmations and conflicts are counted by the inventory_evidence view
+ * (db/migrations/011_inventory_evidence.sql). Entries scoring below the minimum
+ * confidence are stale; the minimum can be configured with INVENTORY_MIN_CONFIDENCE
+ * (default: 0.2, which a single report falls below after about 40 days).
+ */
+
+import type { InventoryConfidence } from '@/types';
+
+const HALF_LIFE_DAYS = 21;
+const DEFAULT_MIN_CONFIDENCE = 0.2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface InventoryEvidence {
+  last_updated: Date | string;
+  confirmations: number;
+  conflicts: number;
+}
+
+export type MinConfidenceParse =
+  | { valid: true; minConfidence: number }
+  | { valid: false; error: string };
+
+export function scoreConfidence(evidence: InventoryEvidence, now: Date = new Date()): number {
+  const ageDays = Math.max(0, (now.getTime() - new Date(evidence.last_updated).getTime()) / DAY_MS);
+  const recency = 0.5 ** (ageDays / HALF_LIFE_DAYS);
+
+  // The latest report is always one of the confirmations
+  const confirmations = Math.max(1, evidence.confirmations);
+  const corroboration = 1 - 0.5 ** (confirmations + 1);
+  const agreement = confirmations / (confirmations + evidence.conflicts);
+
+  return Math.round(recency * corroboration * agreement * 100) / 100;
+}
+
+/**
+ * Score an inventory entry and flag it as stale when it falls below the minimum confidence
+ */
+export function withConfidence<T extends InventoryEvidence>(
+  entry: T,
+  minConfidence: number,
+  now: Date = new Date()
+): T & InventoryConfidence {
+  const confidence = scoreConfidence(entry, now);
+  return { ...entry, confidence, stale: confidence < minConfidence };
+}
+
+/**
+ * Parse a min_confidence query parameter, falling back to INVENTORY_MIN_CONFIDENCE
+ */
+export function parseMinConfidence(input: string | null): MinConfidenceParse {
+  if (input === null || input === '') {
+    const configured = process.env.INVENTORY_MIN_CONFIDENCE ? parseFloat(process.env.INVENTORY_MIN_CONFIDENCE) : NaN;
+    const minConfidence = isNaN(configured) || configured < 0 || configured > 1 ? DEFAULT_MIN_CONFIDENCE : configured;
+    return { valid: true, minConfidence };
+  }
+
+  const minConfidence = parseFloat(input);
+
+  if (isNaN(minConfidence) || minConfidence < 0 || minConfidence > 1) {
+    return { valid: false, error: 'min_confidence must be a number between 0 and 1' };
+  }
+
+  return { valid: true, minConfidence };
+}
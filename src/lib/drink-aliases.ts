@@ -0,0 +1,90 @@
+/**
+ * Brand and flavor aliases
+ *
+ * Aliases live in the drink_aliases table and are managed on /all-drinks. The
+ * drink_names view (db/migrations/012_drink_aliases.sql) lists every name a drink
+ * goes by, which autocomplete and search match against. New drinks are saved under
+ * the canonical names, so "Monster Energy" / "Green" is stored as Monster / Original.
+ */
+
+import type { NeonQueryFunction } from '@neondatabase/serverless';
+import type { DrinkAliasKind } from '@/types';
+
+export const DRINK_ALIAS_KINDS: readonly DrinkAliasKind[] = ['brand', 'flavor'];
+
+export interface DrinkName {
+  brand: string;
+  flavor: string;
+}
+
+export interface DuplicateDrink {
+  id: number;
+  brand: string;
+  flavor: string;
+  size_ml: number;
+}
+
+/**
+ * Replace aliases in a typed brand and flavor with the canonical names
+ * Flavor aliases limited to the (canonical) brand win over ones for every brand.
+ */
+export async function resolveDrinkName(
+  sql: NeonQueryFunction<false, false>,
+  { brand, flavor }: DrinkName
+): Promise<DrinkName> {
+  const rows = await sql`
+    WITH resolved_brand AS (
+      SELECT COALESCE(
+        (SELECT canonical FROM drink_aliases WHERE kind = 'brand' AND LOWER(alias) = LOWER(${brand}) LIMIT 1),
+        ${brand}
+      ) AS brand
+    )
+    SELECT
+      resolved_brand.brand,
+      COALESCE(
+        (
+          SELECT a.canonical
+          FROM drink_aliases a
+          WHERE a.kind = 'flavor'
+          AND LOWER(a.alias) = LOWER(${flavor})
+          AND (a.brand IS NULL OR LOWER(a.brand) = LOWER(resolved_brand.brand))
+          ORDER BY a.brand IS NULL
+          LIMIT 1
+        ),
+        ${flavor}
+      ) AS flavor
+    FROM resolved_brand
+  `;
+
+  return { brand: rows[0].brand, flavor: rows[0].flavor };
+}
+
+/**
+ * Find a drink that is the same product as one about to be created: one of its
+ * barcodes, or the same size under any of its names
+ */
+export async function findDuplicateDrink(
+  sql: NeonQueryFunction<false, false>,
+  drink: DrinkName & { size_ml: number; barcode: string | null }
+): Promise<DuplicateDrink | null> {
+  const rows = await sql`
+    SELECT d.id, d.brand, d.flavor, d.size_ml
+    FROM energy_drinks d
+    WHERE EXISTS (
+      SELECT 1 FROM drink_barcodes b
+      WHERE b.drink_id = d.id AND b.barcode = ${drink.barcode}
+    )
+    OR (
+      d.size_ml = ${drink.size_ml}
+      AND EXISTS (
+        SELECT 1 FROM drink_names n
+        WHERE n.drink_id = d.id
+        AND LOWER(n.brand) = LOWER(${drink.brand})
+        AND LOWER(n.flavor) = LOWER(${drink.flavor})
+      )
+    )
+    LIMIT 1
+  `;
+
+  return rows.length > 0 ? (rows[0] as DuplicateDrink) : null;
+}
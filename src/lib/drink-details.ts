@@ -0,0 +1,164 @@
+/**
+ * Drink nutrition and ingredient details
+ *
+ * Everything about a drink besides its name, size and barcode: the amounts on the
+ * label (per can), how it is sweetened, carbonated and caffeinated, and its
+ * description and image. Every detail is optional and stored as NULL when unknown.
+ */
+
+import type { CaffeineSource, SweetenerType } from '@/types';
+
+export const SWEETENER_TYPES: readonly SweetenerType[] = ['sugar', 'artificial', 'natural', 'mixed', 'unsweetened'];
+
+export const SWEETENER_LABELS: Record<SweetenerType, string> = {
+  sugar: 'Sugar',
+  artificial: 'Artificial (sucralose, aspartame)',
+  natural: 'Natural (stevia, monk fruit)',
+  mixed: 'Sugar and sweeteners',
+  unsweetened: 'Unsweetened',
+};
+
+export const CAFFEINE_SOURCES: readonly CaffeineSource[] = ['synthetic', 'coffee', 'tea', 'guarana', 'yerba_mate', 'mixed'];
+
+export const CAFFEINE_SOURCE_LABELS: Record<CaffeineSource, string> = {
+  synthetic: 'Synthetic',
+  coffee: 'Coffee',
+  tea: 'Tea',
+  guarana: 'Guarana',
+  yerba_mate: 'Yerba Mate',
+  mixed: 'Mixed',
+};
+
+export type DrinkAmountField =
+  | 'caffeine_mg'
+  | 'sugar_g'
+  | 'calories'
+  | 'taurine_mg'
+  | 'vitamin_b3_mg'
+  | 'vitamin_b5_mg'
+  | 'vitamin_b6_mg'
+  | 'vitamin_b12_mcg';
+
+interface AmountSpec {
+  label: string;
+  integer: boolean;
+  /** Largest value the column holds */
+  max: number;
+}
+
+// In form order; max follows the column types in db/migrations
+export const DRINK_AMOUNT_FIELDS: Record<DrinkAmountField, AmountSpec> = {
+  caffeine_mg: { label: 'Caffeine (mg)', integer: true, max: 2147483647 },
+  sugar_g: { label: 'Sugar (g)', integer: false, max: 999.99 },
+  calories: { label: 'Calories', integer: true, max: 2147483647 },
+  taurine_mg: { label: 'Taurine (mg)', integer: true, max: 2147483647 },
+  vitamin_b3_mg: { label: 'Vitamin B3 / Niacin (mg)', integer: false, max: 9999.99 },
+  vitamin_b5_mg: { label: 'Vitamin B5 (mg)', integer: false, max: 9999.99 },
+  vitamin_b6_mg: { label: 'Vitamin B6 (mg)', integer: false, max: 9999.99 },
+  vitamin_b12_mcg: { label: 'Vitamin B12 (mcg)', integer: false, max: 9999.99 },
+};
+
+export type DrinkDetails = Record<DrinkAmountField, number | null> & {
+  sweetener_type: SweetenerType | null;
+  carbonated: boolean | null;
+  caffeine_source: CaffeineSource | null;
+  description: string | null;
+  image_url: string | null;
+};
+
+export type DrinkDetailsParse =
+  | { valid: true; details: Partial<DrinkDetails> }
+  | { valid: false; error: string };
+
+const MAX_IMAGE_URL_LENGTH = 500;
+
+export function isSweetenerType(value: unknown): value is SweetenerType {
+  return typeof value === 'string' && SWEETENER_TYPES.includes(value as SweetenerType);
+}
+
+export function isCaffeineSource(value: unknown): value is CaffeineSource {
+  return typeof value === 'string' && CAFFEINE_SOURCES.includes(value as CaffeineSource);
+}
+
+const isBlank = (value: unknown) => value === null || (typeof value === 'string' && !value.trim());
+
+/**
+ * Parse the details given in a request body
+ *
+ * Only keys present in the body are returned, so an update leaves the others as
+ * they are. null or an empty string clears a detail.
+ *
+ * @param body - Request body; amounts may be numbers or numeric strings
+ * @returns The given details, or an error naming the first invalid one
+ */
+export function parseDrinkDetails(body: Record<string, unknown>): DrinkDetailsParse {
+  const details: Partial<DrinkDetails> = {};
+
+  for (const [field, spec] of Object.entries(DRINK_AMOUNT_FIELDS) as [DrinkAmountField, AmountSpec][]) {
+    const value = body[field];
+    if (value === undefined) continue;
+
+    if (isBlank(value)) {
+      details[field] = null;
+      continue;
+    }
+
+    const amount = Number(value);
+
+    if (!Number.isFinite(amount) || amount < 0 || amount > spec.max) {
+      return { valid: false, error: `${spec.label} must be a number between 0 and ${spec.max}` };
+    }
+
+    if (spec.integer && !Number.isInteger(amount)) {
+      return { valid: false, error: `${spec.label} must be a whole number` };
+    }
+
+    details[field] = amount;
+  }
+
+  if (body.sweetener_type !== undefined) {
+    if (isBlank(body.sweetener_type)) {
+      details.sweetener_type = null;
+    } else if (isSweetenerType(body.sweetener_type)) {
+      details.sweetener_type = body.sweetener_type;
+    } else {
+      return { valid: false, error: `Sweetener type must be one of ${SWEETENER_TYPES.join(', ')}` };
+    }
+  }
+
+  if (body.caffeine_source !== undefined) {
+    if (isBlank(body.caffeine_source)) {
+      details.caffeine_source = null;
+    } else if (isCaffeineSource(body.caffeine_source)) {
+      details.caffeine_source = body.caffeine_source;
+    } else {
+      return { valid: false, error: `Caffeine source must be one of ${CAFFEINE_SOURCES.join(', ')}` };
+    }
+  }
+
+  if (body.carbonated !== undefined) {
+    if (body.carbonated !== null && typeof body.carbonated !== 'boolean') {
+      return { valid: false, error: 'Carbonated must be true, false or null' };
+    }
+    details.carbonated = body.carbonated;
+  }
+
+  if (body.description !== undefined) {
+    details.description = isBlank(body.description) ? null : String(body.description).trim();
+  }
+
+  if (body.image_url !== undefined) {
+    if (isBlank(body.image_url)) {
+      details.image_url = null;
+    } else {
+      const imageUrl = String(body.image_url).trim();
+
+      if (!/^https?:\/\//i.test(imageUrl) || imageUrl.length > MAX_IMAGE_URL_LENGTH) {
+        return { valid: false, error: `Image URL must be an http(s) URL of at most ${MAX_IMAGE_URL_LENGTH} characters` };
+      }
+      details.image_url = imageUrl;
+    }
+  }
+
+  return { valid: true, details };
+}
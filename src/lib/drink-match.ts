@@ -0,0 +1,123 @@
+/**
+ * Matching typed drink names for autocomplete
+ *
+ * Queries are compared in lower case. Besides the words as typed, a query is also
+ * matched with spaces and punctuation removed ("redbull" finds "Red Bull"), and its
+ * digits against barcodes once there are enough of them to mean one.
+ *
+ * Ranking happens in SQL (GET /api/drinks/autocomplete); the highlights computed
+ * here only mark which characters of a result the query matched.
+ */
+
+import type { TextRange } from '@/types';
+
+// Fewer digits than this are part of a name ("monster 500"), not a barcode
+export const MIN_BARCODE_DIGITS = 4;
+
+// A query word only highlights part of a word when at least this much of it matches
+const MIN_HIGHLIGHT_CHARS = 2;
+
+export interface DrinkQuery {
+  /** Lower-cased, trimmed and with single spaces */
+  text: string;
+  /** text without spaces or punctuation */
+  compact: string;
+  /** Digits of the query, null when too few to be part of a barcode */
+  digits: string | null;
+}
+
+export function parseDrinkQuery(input: string): DrinkQuery {
+  const text = input.trim().toLowerCase().replace(/\s+/g, ' ');
+  const digits = text.replace(/\D/g, '');
+
+  return {
+    text,
+    compact: text.replace(/[^\p{L}\p{N}]/gu, ''),
+    digits: digits.length >= MIN_BARCODE_DIGITS ? digits : null,
+  };
+}
+
+/**
+ * Escape a string for use in a LIKE pattern
+ */
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+const isSeparator = (char: string) => !/[\p{L}\p{N}]/u.test(char);
+
+/**
+ * Length of the text (from start) that the word matches, skipping separators in the
+ * text so one word can run across several ("redbull" over "Red Bull")
+ *
+ * @returns The end of the match and how many characters of the word it used
+ */
+function matchFrom(text: string, start: number, word: string): { end: number; matched: number } {
+  let position = start;
+  let matched = 0;
+  let end = start;
+
+  while (position < text.length && matched < word.length) {
+    if (text[position] === word[matched]) {
+      matched++;
+      position++;
+      end = position;
+    } else if (matched > 0 && isSeparator(text[position])) {
+      position++;
+    } else {
+      break;
+    }
+  }
+
+  return { end, matched };
+}
+
+/**
+ * Character ranges of a text that the query matches
+ *
+ * Each query word is matched against the start of the text's words, so a partly
+ * typed or misspelled word ("monstr") still highlights the prefix it shares
+ * ("Monst"). Ranges are sorted and don't overlap.
+ */
+export function highlightMatches(text: string, query: string): TextRange[] {
+  const lower = text.toLowerCase();
+  const words = parseDrinkQuery(query).text.split(' ').filter(Boolean);
+  const ranges: TextRange[] = [];
+
+  for (const word of words) {
+    let best: TextRange | null = null;
+
+    for (let start = 0; start < lower.length; start++) {
+      const atWordStart = start === 0 || isSeparator(lower[start - 1]);
+      // Digits match anywhere, so a partial barcode highlights in the middle
+      if (!atWordStart && !/\d/.test(word)) continue;
+
+      const { end, matched } = matchFrom(lower, start, word);
+
+      if (matched < Math.min(word.length, MIN_HIGHLIGHT_CHARS)) continue;
+      if (!best || end - start > best.end - best.start) {
+        best = { start, end };
+      }
+    }
+
+    if (best) ranges.push(best);
+  }
+
+  return mergeRanges(ranges);
+}
+
+function mergeRanges(ranges: TextRange[]): TextRange[] {
+  const merged: TextRange[] = [];
+
+  for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
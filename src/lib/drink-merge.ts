@@ -0,0 +1,173 @@
+/**
+ * Finding and merging duplicate drinks
+ *
+ * The (brand, flavor, size_ml) unique constraint only stops exact repeats, so rows
+ * like "Red Bull / Sugar Free" and "Redbull / Sugarfree" can both exist. Candidates
+ * are pairs of drinks that
+ * - share a size and have the same name once case, spaces and punctuation are
+ *   ignored, under any of their aliases (same_name),
+ * - share a size and have similar names by pg_trgm similarity (similar_name), or
+ * - have barcodes for the same product code, i.e. the same GTIN apart from its
+ *   packaging indicator and check digit, whatever their size (same_product_code).
+ *   Every code in drink_barcodes counts, not just the main one.
+ *
+ * Merging moves everything from one drink onto the other and deletes it.
+ */
+
+import type { NeonQueryFunction } from '@neondatabase/serverless';
+import type { DuplicateDrinkCandidate, EnergyDrink } from '@/types';
+
+export const MIN_DUPLICATE_SIMILARITY = 0.6;
+const MAX_CANDIDATES = 200;
+
+export interface DrinkMergeResult {
+  drink: EnergyDrink;
+  /** Inventory rows moved from the merged drink */
+  inventory_moved: number;
+  /** Stores that listed both drinks; the more recently updated row was kept */
+  inventory_conflicts: number;
+  /** Barcodes moved from the merged drink; they all scan as the kept drink now */
+  barcodes_moved: number;
+}
+
+export async function findDuplicateCandidates(
+  sql: NeonQueryFunction<false, false>
+): Promise<DuplicateDrinkCandidate[]> {
+  const rows = await sql`
+    WITH name_keys AS (
+      SELECT DISTINCT n.drink_id, d.size_ml, regexp_replace(LOWER(n.brand || n.flavor), '[^[:alnum:]]', '', 'g') AS name_key
+      FROM drink_names n
+      JOIN energy_drinks d ON d.id = n.drink_id
+    ),
+    pairs AS (
+      SELECT a.drink_id AS first_id, b.drink_id AS second_id, 'same_name' AS reason
+      FROM name_keys a
+      JOIN name_keys b ON b.name_key = a.name_key AND b.size_ml = a.size_ml AND b.drink_id > a.drink_id
+      UNION
+      SELECT a.id, b.id, 'similar_name'
+      FROM energy_drinks a
+      JOIN energy_drinks b ON b.size_ml = a.size_ml AND b.id > a.id
+      WHERE similarity(LOWER(a.brand || ' ' || a.flavor), LOWER(b.brand || ' ' || b.flavor)) >= ${MIN_DUPLICATE_SIMILARITY}
+      UNION
+      SELECT DISTINCT a.drink_id, b.drink_id, 'same_product_code'
+      FROM drink_barcodes a
+      JOIN drink_barcodes b ON b.drink_id > a.drink_id
+      WHERE substring(a.barcode FROM 2 FOR 12) = substring(b.barcode FROM 2 FOR 12)
+    ),
+    grouped AS (
+      SELECT first_id, second_id, array_agg(reason ORDER BY reason) AS reasons
+      FROM pairs
+      GROUP BY first_id, second_id
+    )
+    SELECT
+      g.reasons,
+      similarity(LOWER(a.brand || ' ' || a.flavor), LOWER(b.brand || ' ' || b.flavor))::float8 AS similarity,
+      json_build_array(
+        json_build_object(
+          'id', a.id, 'brand', a.brand, 'flavor', a.flavor, 'size_ml', a.size_ml,
+          'caffeine_mg', a.caffeine_mg, 'barcode', a.barcode,
+          'inventory_count', (SELECT COUNT(*) FROM store_inventory i WHERE i.drink_id = a.id)
+        ),
+        json_build_object(
+          'id', b.id, 'brand', b.brand, 'flavor', b.flavor, 'size_ml', b.size_ml,
+          'caffeine_mg', b.caffeine_mg, 'barcode', b.barcode,
+          'inventory_count', (SELECT COUNT(*) FROM store_inventory i WHERE i.drink_id = b.id)
+        )
+      ) AS drinks
+    FROM grouped g
+    JOIN energy_drinks a ON a.id = g.first_id
+    JOIN energy_drinks b ON b.id = g.second_id
+    ORDER BY cardinality(g.reasons) DESC, similarity DESC
+    LIMIT ${MAX_CANDIDATES}
+  `;
+
+  return rows.map((row) => ({
+    drinks: row.drinks,
+    reasons: row.reasons,
+    similarity: Math.round(row.similarity * 100) / 100,
+  }));
+}
+
+/**
+ * Merge one drink into another in a single transaction
+ *
+ * Inventory rows are re-pointed to the kept drink; where a store lists both, the
+ * more recently updated row wins. Price history, pending barcodes and all of the
+ * merged drink's barcodes follow, the kept drink fills its missing main barcode and
+ * nutrition facts from the merged one, and the merged drink is deleted.
+ *
+ * @returns The merge outcome, or null when either drink doesn't exist
+ */
+export async function mergeDrinks(
+  sql: NeonQueryFunction<false, false>,
+  keepId: number,
+  mergeId: number
+): Promise<DrinkMergeResult | null> {
+  const drinksResult = await sql`
+    SELECT
+      id, barcode, caffeine_mg, sugar_g, calories, description, image_url, taurine_mg,
+      vitamin_b3_mg, vitamin_b5_mg, vitamin_b6_mg, vitamin_b12_mcg, sweetener_type, carbonated, caffeine_source
+    FROM energy_drinks
+    WHERE id = ANY(${[keepId, mergeId]}::int[])
+  `;
+
+  const keep = drinksResult.find((row) => row.id === keepId);
+  const merged = drinksResult.find((row) => row.id === mergeId);
+
+  if (!keep || !merged) {
+    return null;
+  }
+
+  const [replaced, dropped, moved, , , barcodes, , updated] = await sql.transaction([
+    // Rows of the kept drink that are older than the merged drink's row at the same store
+    sql`
+      DELETE FROM store_inventory k
+      USING store_inventory m
+      WHERE k.drink_id = ${keepId} AND m.drink_id = ${mergeId} AND m.store_id = k.store_id
+      AND COALESCE(m.last_updated, '-infinity') > COALESCE(k.last_updated, '-infinity')
+      RETURNING k.id
+    `,
+    // Rows of the merged drink at stores where the kept drink's row is fresher
+    sql`
+      DELETE FROM store_inventory m
+      USING store_inventory k
+      WHERE m.drink_id = ${mergeId} AND k.drink_id = ${keepId} AND k.store_id = m.store_id
+      RETURNING m.id
+    `,
+    sql`UPDATE store_inventory SET drink_id = ${keepId} WHERE drink_id = ${mergeId} RETURNING id`,
+    sql`UPDATE price_history SET drink_id = ${keepId} WHERE drink_id = ${mergeId}`,
+    sql`UPDATE pending_products SET drink_id = ${keepId} WHERE drink_id = ${mergeId}`,
+    sql`UPDATE drink_barcodes SET drink_id = ${keepId} WHERE drink_id = ${mergeId} RETURNING id`,
+    // Deleted before its main barcode moves, since that is unique too
+    sql`DELETE FROM energy_drinks WHERE id = ${mergeId}`,
+    sql`
+      UPDATE energy_drinks
+      SET
+        barcode = COALESCE(barcode, ${merged.barcode}),
+        caffeine_mg = COALESCE(caffeine_mg, ${merged.caffeine_mg}),
+        sugar_g = COALESCE(sugar_g, ${merged.sugar_g}),
+        calories = COALESCE(calories, ${merged.calories}),
+        description = COALESCE(description, ${merged.description}),
+        image_url = COALESCE(image_url, ${merged.image_url}),
+        taurine_mg = COALESCE(taurine_mg, ${merged.taurine_mg}),
+        vitamin_b3_mg = COALESCE(vitamin_b3_mg, ${merged.vitamin_b3_mg}),
+        vitamin_b5_mg = COALESCE(vitamin_b5_mg, ${merged.vitamin_b5_mg}),
+        vitamin_b6_mg = COALESCE(vitamin_b6_mg, ${merged.vitamin_b6_mg}),
+        vitamin_b12_mcg = COALESCE(vitamin_b12_mcg, ${merged.vitamin_b12_mcg}),
+        sweetener_type = COALESCE(sweetener_type, ${merged.sweetener_type}),
+        carbonated = COALESCE(carbonated, ${merged.carbonated}),
+        caffeine_source = COALESCE(caffeine_source, ${merged.caffeine_source})
+      WHERE id = ${keepId}
+      RETURNING
+        id, brand, flavor, size_ml, caffeine_mg, barcode, sugar_g, calories, description, image_url, taurine_mg,
+        vitamin_b3_mg, vitamin_b5_mg, vitamin_b6_mg, vitamin_b12_mcg, sweetener_type, carbonated, caffeine_source
+    `,
+  ]);
+
+  return {
+    drink: updated[0] as EnergyDrink,
+    inventory_moved: moved.length,
+    inventory_conflicts: replaced.length + dropped.length,
+    barcodes_moved: barcodes.length,
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * How recent an inventory report is
+ *
+ * Shelves change; a price someone scanned this week is more trustworthy than one
+ * from last season. Reports are grouped into three levels for display.
+ */
+
+export type Freshness = 'fresh' | 'aging' | 'stale';
+
+// Reports up to a week old are fresh, up to a month aging, anything older stale
+const FRESH_MAX_DAYS = 7;
+const AGING_MAX_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getFreshness(reportedAt: Date | string, now: Date = new Date()): Freshness {
+  const ageDays = (now.getTime() - new Date(reportedAt).getTime()) / DAY_MS;
+
+  if (ageDays <= FRESH_MAX_DAYS) return 'fresh';
+  if (ageDays <= AGING_MAX_DAYS) return 'aging';
+  return 'stale';
+}
+
+/**
+ * Short relative age for display, e.g. "today", "3 days ago", "5 months ago"
+ */
+export function formatReportAge(reportedAt: Date | string, now: Date = new Date()): string {
+  const days = Math.floor((now.getTime() - new Date(reportedAt).getTime()) / DAY_MS);
+
+  if (days < 1) return 'today';
+  if (days === 1) return 'yesterday';
+  if (days < 30) return `${days} days ago`;
+
+  const months = Math.floor(days / 30);
+  if (months < 12) return months === 1 ? '1 month ago' : `${months} months ago`;
+
+  const years = Math.floor(days / 365);
+  return years <= 1 ? '1 year ago' : `${years} years ago`;
+}
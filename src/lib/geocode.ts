@@ -1,99 +1,59 @@
 /**
- * Geocoding utility using geocode.maps.co API
- * Converts addresses to coordinates (latitude, longitude)
+ * Geocoding utility
+ * Converts addresses to coordinates (latitude, longitude) and back using the
+ * configured geocoding provider (see src/lib/geocoding)
  */
 
-export interface GeocodeResult {
-  latitude: number;
-  longitude: number;
-  display_name?: string;
-  boundingbox?: [string, string, string, string];
-}
-
-export interface AddressComponents {
-  address?: string;
-  city?: string;
-  state?: string;
-  zip_code?: string;
-  country?: string;
-}
-
-interface GeocodeApiResponse {
-  lat: string;
-  lon: string;
-  display_name: string;
-  boundingbox: [string, string, string, string];
-  place_id: number;
-  osm_type: string;
-  osm_id: number;
-}
+import {
+  buildAddressQuery,
+  getGeocodingProvider,
+  type AddressComponents,
+  type GeocodeResult,
+  type GeocodingProvider,
+  type ReverseGeocodeResult,
+} from './geocoding';
+
+export type {
+  AddressComponents,
+  GeocodeResult,
+  GeocodingProvider,
+  ReverseGeocodeResult,
+  StructuredAddress,
+} from './geocoding';
+export {
+  createProviderFromEnv,
+  getGeocodingProvider,
+  normalizeAddressQuery,
+  setGeocodingProvider,
+} from './geocoding';
 
 /**
- * Geocode an address to coordinates using geocode.maps.co API
+ * Geocode an address to coordinates
  *
  * @param address - Full address string or address components
+ * @param provider - Geocoding provider (default: configured from environment)
  * @returns Promise with latitude, longitude, and additional metadata
  * @throws Error if geocoding fails or no results found
  */
 export async function geocodeAddress(
-  address: string | AddressComponents
+  address: string | AddressComponents,
+  provider: GeocodingProvider = getGeocodingProvider()
 ): Promise<GeocodeResult> {
-  const apiKey = process.env.GEOCODING_API_KEY;
-
-  if (!apiKey) {
-    throw new Error('GEOCODING_API_KEY not found in environment variables');
-  }
-
-  // Build query string from address components or use full address
-  let queryAddress: string;
-  if (typeof address === 'string') {
-    queryAddress = address;
-  } else {
-    const parts = [
-      address.address,
-      address.city,
-      address.state,
-      address.zip_code,
-      address.country || 'US',
-    ].filter(Boolean);
-    queryAddress = parts.join(' ');
-  }
+  const queryAddress = buildAddressQuery(address);
 
   if (!queryAddress.trim()) {
     throw new Error('Address cannot be empty');
   }
 
   try {
-    const url = new URL('https://geocode.maps.co/search');
-    url.searchParams.append('q', queryAddress);
-    url.searchParams.append('api_key', apiKey);
-
-    const response = await fetch(url.toString(), {
-      headers: {
-        'User-Agent': 'EnergyDrinkFinder/1.0',
-      },
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => 'Unable to read error response');
-      throw new Error(`Geocoding API error: ${response.status} ${response.statusText} - ${errorText}`);
-    }
+    const results = await provider.search(queryAddress);
 
-    const data: GeocodeApiResponse[] = await response.json();
-
-    if (!data || data.length === 0) {
+    if (results.length === 0) {
       throw new Error(`No results found for address: ${queryAddress}`);
     }
 
     // Return the first (most relevant) result
-    const result = data[0];
-
-    return {
-      latitude: parseFloat(result.lat),
-      longitude: parseFloat(result.lon),
-      display_name: result.display_name,
-      boundingbox: result.boundingbox,
-    };
+    return results[0];
   } catch (error) {
     if (error instanceof Error) {
       throw new Error(`Geocoding failed: ${error.message}`);
@@ -102,28 +62,65 @@ export async function geocodeAddress(
   }
 }
 
+/**
+ * Reverse geocode coordinates to a structured address
+ *
+ * @param latitude - Latitude (-90 to 90)
+ * @param longitude - Longitude (-180 to 180)
+ * @param provider - Geocoding provider (default: configured from environment)
+ * @returns Promise with the address components at that location
+ * @throws Error if the coordinates are invalid, the lookup fails or nothing is found
+ */
+export async function reverseGeocode(
+  latitude: number,
+  longitude: number,
+  provider: GeocodingProvider = getGeocodingProvider()
+): Promise<ReverseGeocodeResult> {
+  if (isNaN(latitude) || isNaN(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    throw new Error(`Invalid coordinates: ${latitude}, ${longitude}`);
+  }
+
+  try {
+    const result = await provider.reverse(latitude, longitude);
+
+    if (!result) {
+      throw new Error(`No results found for location: ${latitude}, ${longitude}`);
+    }
+
+    return result;
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`Reverse geocoding failed: ${error.message}`);
+    }
+    throw new Error('Reverse geocoding failed with unknown error');
+  }
+}
+
 /**
  * Batch geocode multiple addresses
- * Note: geocode.maps.co has rate limits, so this includes delays between requests
+ * Includes delays between requests to respect the provider's rate limit
  *
  * @param addresses - Array of address strings or components
- * @param delayMs - Delay between requests in milliseconds (default: 1000ms)
+ * @param delayMs - Delay between requests in milliseconds (default: the provider's rate limit)
+ * @param provider - Geocoding provider (default: configured from environment)
  * @returns Promise with array of results (null for failed geocoding)
  */
 export async function batchGeocodeAddresses(
   addresses: (string | AddressComponents)[],
-  delayMs: number = 1000
+  delayMs?: number,
+  provider: GeocodingProvider = getGeocodingProvider()
 ): Promise<(GeocodeResult | null)[]> {
   const results: (GeocodeResult | null)[] = [];
+  const delay = delayMs ?? provider.rateLimitMs;
 
   for (let i = 0; i < addresses.length; i++) {
     try {
-      const result = await geocodeAddress(addresses[i]);
+      const result = await geocodeAddress(addresses[i], provider);
       results.push(result);
 
       // Add delay between requests to respect rate limits
-      if (i < addresses.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, delayMs));
+      if (i < addresses.length - 1 && delay > 0) {
+        await new Promise(resolve => setTimeout(resolve, delay));
       }
     } catch (error) {
       console.error(`Failed to geocode address ${i}:`, error);
@@ -0,0 +1,68 @@
+/**
+ * Address query helpers shared by geocoding providers
+ */
+
+import type { AddressComponents } from './types';
+
+/**
+ * Build a single query string from a full address or address components
+ * Components are joined in address, city, state, zip, country order (country defaults to US).
+ */
+export function buildAddressQuery(address: string | AddressComponents): string {
+  if (typeof address === 'string') {
+    return address;
+  }
+
+  const parts = [
+    address.address,
+    address.city,
+    address.state,
+    address.zip_code,
+    address.country || 'US',
+  ].filter(Boolean);
+
+  return parts.join(' ');
+}
+
+/**
+ * Normalize an address query for use as a lookup key
+ * Lowercases, drops punctuation and collapses whitespace, so
+ * "555 5th Ave., New York" and "555 5th ave new york" compare equal.
+ */
+export function normalizeAddressQuery(query: string): string {
+  return query
+    .toLowerCase()
+    .replace(/[.,#]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const US_STATE_CODES: Record<string, string> = {
+  alabama: 'AL', alaska: 'AK', arizona: 'AZ', arkansas: 'AR', california: 'CA',
+  colorado: 'CO', connecticut: 'CT', delaware: 'DE', 'district of columbia': 'DC',
+  florida: 'FL', georgia: 'GA', hawaii: 'HI', idaho: 'ID', illinois: 'IL',
+  indiana: 'IN', iowa: 'IA', kansas: 'KS', kentucky: 'KY', louisiana: 'LA',
+  maine: 'ME', maryland: 'MD', massachusetts: 'MA', michigan: 'MI', minnesota: 'MN',
+  mississippi: 'MS', missouri: 'MO', montana: 'MT', nebraska: 'NE', nevada: 'NV',
+  'new hampshire': 'NH', 'new jersey': 'NJ', 'new mexico': 'NM', 'new york': 'NY',
+  'north carolina': 'NC', 'north dakota': 'ND', ohio: 'OH', oklahoma: 'OK',
+  oregon: 'OR', pennsylvania: 'PA', 'rhode island': 'RI', 'south carolina': 'SC',
+  'south dakota': 'SD', tennessee: 'TN', texas: 'TX', utah: 'UT', vermont: 'VT',
+  virginia: 'VA', washington: 'WA', 'west virginia': 'WV', wisconsin: 'WI', wyoming: 'WY',
+  'puerto rico': 'PR',
+};
+
+/**
+ * Convert a state name or code to its 2-letter code
+ * Returns undefined when the value isn't a recognizable US state.
+ */
+export function toStateCode(state: string | undefined): string | undefined {
+  if (!state) return undefined;
+
+  const trimmed = state.trim();
+  if (/^[A-Za-z]{2}$/.test(trimmed)) {
+    return trimmed.toUpperCase();
+  }
+
+  return US_STATE_CODES[trimmed.toLowerCase()];
+}
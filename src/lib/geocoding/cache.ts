@@ -0,0 +1,162 @@
+/**
+ * Persistent geocode result cache
+ *
+ * Results are stored in the geocode_cache table keyed by the provider name and the
+ * normalized address string, so results from the fixture or another provider are
+ * never served for the configured one. Addresses the provider couldn't resolve are cached as negative entries
+ * with a shorter TTL, so they aren't re-queried on every run but get retried later.
+ *
+ * TTLs can be configured with GEOCODE_CACHE_TTL_DAYS (default: 90) and
+ * GEOCODE_CACHE_NEGATIVE_TTL_DAYS (default: 7).
+ */
+
+import type { NeonQueryFunction } from '@neondatabase/serverless';
+import { normalizeAddressQuery } from './address';
+import type { GeocodeResult, GeocodingProvider } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface GeocodeCacheStats {
+  hits: number;
+  misses: number;
+}
+
+export interface GeocodeCache {
+  /** Cached result: a GeocodeResult, null for a cached "no results", undefined on a miss */
+  get(query: string, provider: string): Promise<GeocodeResult | null | undefined>;
+  set(query: string, result: GeocodeResult | null, provider: string): Promise<void>;
+  readonly stats: GeocodeCacheStats;
+}
+
+interface GeocodeCacheOptions {
+  ttlDays?: number;
+  negativeTtlDays?: number;
+}
+
+function cacheKey(query: string, provider: string): string {
+  return `${provider}:${normalizeAddressQuery(query)}`;
+}
+
+function readTtlDays(value: string | undefined, fallback: number): number {
+  const days = value ? parseFloat(value) : NaN;
+  return isNaN(days) || days < 0 ? fallback : days;
+}
+
+/**
+ * Create a cache backed by the geocode_cache table
+ *
+ * Database errors are logged and treated as cache misses, so a cache outage
+ * never breaks geocoding itself.
+ */
+export function createDatabaseGeocodeCache(
+  sql: NeonQueryFunction<false, false>,
+  options: GeocodeCacheOptions = {}
+): GeocodeCache {
+  const ttlDays = options.ttlDays ?? readTtlDays(process.env.GEOCODE_CACHE_TTL_DAYS, 90);
+  const negativeTtlDays =
+    options.negativeTtlDays ?? readTtlDays(process.env.GEOCODE_CACHE_NEGATIVE_TTL_DAYS, 7);
+  const stats: GeocodeCacheStats = { hits: 0, misses: 0 };
+
+  return {
+    stats,
+
+    async get(query, provider) {
+      try {
+        const rows = await sql`
+          SELECT found, latitude, longitude, display_name, boundingbox
+          FROM geocode_cache
+          WHERE query_key = ${cacheKey(query, provider)}
+          AND expires_at > CURRENT_TIMESTAMP
+          LIMIT 1
+        `;
+
+        if (rows.length === 0) {
+          stats.misses++;
+          return undefined;
+        }
+
+        stats.hits++;
+        const row = rows[0];
+
+        if (!row.found) {
+          return null;
+        }
+
+        return {
+          latitude: parseFloat(row.latitude),
+          longitude: parseFloat(row.longitude),
+          display_name: row.display_name ?? undefined,
+          boundingbox: row.boundingbox ?? undefined,
+        };
+      } catch (error) {
+        console.error('Geocode cache read failed:', error);
+        stats.misses++;
+        return undefined;
+      }
+    },
+
+    async set(query, result, provider) {
+      const expiresAt = new Date(Date.now() + (result ? ttlDays : negativeTtlDays) * DAY_MS);
+
+      try {
+        await sql`
+          INSERT INTO geocode_cache (
+            query_key, query, found, latitude, longitude, display_name, boundingbox, provider, expires_at
+          )
+          VALUES (
+            ${cacheKey(query, provider)},
+            ${query},
+            ${result !== null},
+            ${result?.latitude ?? null},
+            ${result?.longitude ?? null},
+            ${result?.display_name ?? null},
+            ${result?.boundingbox ? JSON.stringify(result.boundingbox) : null},
+            ${provider},
+            ${expiresAt.toISOString()}
+          )
+          ON CONFLICT (query_key)
+          DO UPDATE SET
+            query = EXCLUDED.query,
+            found = EXCLUDED.found,
+            latitude = EXCLUDED.latitude,
+            longitude = EXCLUDED.longitude,
+            display_name = EXCLUDED.display_name,
+            boundingbox = EXCLUDED.boundingbox,
+            provider = EXCLUDED.provider,
+            created_at = CURRENT_TIMESTAMP,
+            expires_at = EXCLUDED.expires_at
+        `;
+      } catch (error) {
+        console.error('Geocode cache write failed:', error);
+      }
+    },
+  };
+}
+
+/**
+ * Wrap a provider so searches are served from the cache when possible
+ *
+ * Only the first (most relevant) result is cached, which is what geocodeAddress uses.
+ * Reverse lookups are passed through uncached.
+ */
+export function withGeocodeCache(provider: GeocodingProvider, cache: GeocodeCache): GeocodingProvider {
+  return {
+    name: provider.name,
+    rateLimitMs: provider.rateLimitMs,
+    async search(query: string): Promise<GeocodeResult[]> {
+      const cached = await cache.get(query, provider.name);
+
+      if (cached !== undefined) {
+        return cached ? [cached] : [];
+      }
+
+      const results = await provider.search(query);
+      await cache.set(query, results[0] ?? null, provider.name);
+
+      return results;
+    },
+    reverse(latitude: number, longitude: number) {
+      return provider.reverse(latitude, longitude);
+    },
+  };
+}
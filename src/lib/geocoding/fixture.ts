@@ -0,0 +1,151 @@
+/**
+ * Offline geocoding provider backed by fixtures
+ *
+ * Deterministic and network-free, for tests and local development.
+ * Queries are matched on their normalized form; unknown addresses return no results.
+ * Reverse lookups return the nearest fixture within 250m.
+ * Extra fixtures can be loaded from a JSON file (GEOCODING_FIXTURES_PATH) mapping
+ * address strings to results.
+ */
+
+import { readFileSync } from 'fs';
+import { normalizeAddressQuery } from './address';
+import type { GeocodeResult, GeocodingProvider, ReverseGeocodeResult, StructuredAddress } from './types';
+
+export type GeocodeFixtures = Record<string, GeocodeResult & { address?: StructuredAddress }>;
+
+// Maximum distance for a reverse lookup to match a fixture
+const REVERSE_MATCH_RADIUS_M = 250;
+
+/**
+ * Great-circle distance in meters between two coordinates
+ */
+function distanceMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371000 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Built-in fixtures: the sample stores from the initial migration and the documentation examples
+ */
+export const DEFAULT_GEOCODE_FIXTURES: GeocodeFixtures = {
+  '555 5th Ave New York NY 10017 US': {
+    latitude: 40.7551,
+    longitude: -73.9787,
+    display_name: '555 5th Avenue, Manhattan, New York, NY 10017, USA',
+    boundingbox: ['40.7541', '40.7561', '-73.9797', '-73.9777'],
+    address: {
+      house_number: '555',
+      street: '5th Avenue',
+      address: '555 5th Avenue',
+      city: 'New York',
+      state: 'NY',
+      zip_code: '10017',
+      country: 'US',
+    },
+  },
+  '123 Main St New York NY 10001 US': {
+    latitude: 40.75058,
+    longitude: -73.993584,
+    display_name: '123 Main Street, Manhattan, New York, NY 10001, USA',
+    address: {
+      house_number: '123',
+      street: 'Main Street',
+      address: '123 Main Street',
+      city: 'New York',
+      state: 'NY',
+      zip_code: '10001',
+      country: 'US',
+    },
+  },
+  '456 5th Ave New York NY 10018 US': {
+    latitude: 40.754932,
+    longitude: -73.984016,
+    display_name: '456 5th Avenue, Manhattan, New York, NY 10018, USA',
+    address: {
+      house_number: '456',
+      street: '5th Avenue',
+      address: '456 5th Avenue',
+      city: 'New York',
+      state: 'NY',
+      zip_code: '10018',
+      country: 'US',
+    },
+  },
+  '789 Broadway New York NY 10003 US': {
+    latitude: 40.732,
+    longitude: -73.99,
+    display_name: '789 Broadway, Manhattan, New York, NY 10003, USA',
+    address: {
+      house_number: '789',
+      street: 'Broadway',
+      address: '789 Broadway',
+      city: 'New York',
+      state: 'NY',
+      zip_code: '10003',
+      country: 'US',
+    },
+  },
+  '321 Park Ave New York NY 10022 US': {
+    latitude: 40.758896,
+    longitude: -73.968285,
+    display_name: '321 Park Avenue, Manhattan, New York, NY 10022, USA',
+    address: {
+      house_number: '321',
+      street: 'Park Avenue',
+      address: '321 Park Avenue',
+      city: 'New York',
+      state: 'NY',
+      zip_code: '10022',
+      country: 'US',
+    },
+  },
+};
+
+/**
+ * Read additional fixtures from a JSON file
+ */
+export function loadGeocodeFixtures(path: string): GeocodeFixtures {
+  return JSON.parse(readFileSync(path, 'utf-8')) as GeocodeFixtures;
+}
+
+export function createFixtureProvider(
+  fixtures: GeocodeFixtures = DEFAULT_GEOCODE_FIXTURES
+): GeocodingProvider {
+  const byQuery = new Map(
+    Object.entries(fixtures).map(([query, result]) => [normalizeAddressQuery(query), result])
+  );
+
+  return {
+    name: 'fixture',
+    rateLimitMs: 0,
+    async search(query: string): Promise<GeocodeResult[]> {
+      const result = byQuery.get(normalizeAddressQuery(query));
+      if (!result) return [];
+
+      const { latitude, longitude, display_name, boundingbox } = result;
+      return [{ latitude, longitude, display_name, boundingbox }];
+    },
+    async reverse(latitude: number, longitude: number): Promise<ReverseGeocodeResult | null> {
+      let nearest: { result: GeocodeFixtures[string]; distance: number } | null = null;
+
+      for (const result of byQuery.values()) {
+        if (!result.address) continue;
+
+        const distance = distanceMeters(latitude, longitude, result.latitude, result.longitude);
+        if (distance <= REVERSE_MATCH_RADIUS_M && (!nearest || distance < nearest.distance)) {
+          nearest = { result, distance };
+        }
+      }
+
+      if (!nearest) return null;
+
+      const { address, ...rest } = nearest.result;
+      return { ...rest, address: { ...address } };
+    },
+  };
+}
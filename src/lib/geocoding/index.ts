@@ -0,0 +1,78 @@
+/**
+ * Geocoding provider selection
+ *
+ * GEOCODING_PROVIDER picks the backend:
+ * - maps-co (default): geocode.maps.co, requires GEOCODING_API_KEY
+ * - nominatim: Nominatim API at NOMINATIM_URL (default: public OSM instance),
+ *   optional NOMINATIM_EMAIL contact address
+ * - fixture: offline fixtures, optionally extended from GEOCODING_FIXTURES_PATH
+ */
+
+import { createFixtureProvider, DEFAULT_GEOCODE_FIXTURES, loadGeocodeFixtures } from './fixture';
+import { createMapsCoProvider, createNominatimProvider } from './nominatim';
+import type { GeocodingProvider } from './types';
+
+export * from './types';
+export { buildAddressQuery, normalizeAddressQuery, toStateCode } from './address';
+export {
+  createDatabaseGeocodeCache,
+  withGeocodeCache,
+  type GeocodeCache,
+  type GeocodeCacheStats,
+} from './cache';
+export { createFixtureProvider, DEFAULT_GEOCODE_FIXTURES, type GeocodeFixtures } from './fixture';
+export { createMapsCoProvider, createNominatimProvider } from './nominatim';
+
+let configuredProvider: GeocodingProvider | null = null;
+
+/**
+ * Create a provider from environment configuration
+ *
+ * @throws Error if the provider name is unknown or its required settings are missing
+ */
+export function createProviderFromEnv(env: NodeJS.ProcessEnv = process.env): GeocodingProvider {
+  const providerName = env.GEOCODING_PROVIDER || 'maps-co';
+
+  switch (providerName) {
+    case 'maps-co': {
+      if (!env.GEOCODING_API_KEY) {
+        throw new Error('GEOCODING_API_KEY not found in environment variables');
+      }
+      return createMapsCoProvider(env.GEOCODING_API_KEY);
+    }
+    case 'nominatim':
+      return createNominatimProvider({
+        baseUrl: env.NOMINATIM_URL || undefined,
+        email: env.NOMINATIM_EMAIL || undefined,
+      });
+    case 'fixture': {
+      const extraFixtures = env.GEOCODING_FIXTURES_PATH
+        ? loadGeocodeFixtures(env.GEOCODING_FIXTURES_PATH)
+        : {};
+      return createFixtureProvider({ ...DEFAULT_GEOCODE_FIXTURES, ...extraFixtures });
+    }
+    default:
+      throw new Error(
+        `Unknown GEOCODING_PROVIDER "${providerName}" (expected maps-co, nominatim or fixture)`
+      );
+  }
+}
+
+/**
+ * Get the provider configured for this process
+ * Created from the environment on first use unless one was set with setGeocodingProvider.
+ */
+export function getGeocodingProvider(): GeocodingProvider {
+  if (!configuredProvider) {
+    configuredProvider = createProviderFromEnv();
+  }
+  return configuredProvider;
+}
+
+/**
+ * Override the provider for this process (e.g. a fixture provider in tests)
+ * Pass null to go back to environment configuration.
+ */
+export function setGeocodingProvider(provider: GeocodingProvider | null) {
+  configuredProvider = provider;
+}
@@ -0,0 +1,158 @@
+/**
+ * Nominatim-compatible geocoding providers
+ *
+ * geocode.maps.co is a hosted Nominatim, so both providers share the same
+ * request and response handling and only differ in base URL and credentials.
+ *
+ * Docs: https://nominatim.org/release-docs/latest/api/Search/
+ *       https://nominatim.org/release-docs/latest/api/Reverse/
+ */
+
+import { toStateCode } from './address';
+import type { GeocodeResult, GeocodingProvider, ReverseGeocodeResult, StructuredAddress } from './types';
+
+interface NominatimSearchResult {
+  lat: string;
+  lon: string;
+  display_name: string;
+  boundingbox: [string, string, string, string];
+  place_id: number;
+  osm_type: string;
+  osm_id: number;
+}
+
+interface NominatimReverseResult extends NominatimSearchResult {
+  error?: string;
+  address?: {
+    house_number?: string;
+    road?: string;
+    city?: string;
+    town?: string;
+    village?: string;
+    hamlet?: string;
+    county?: string;
+    state?: string;
+    'ISO3166-2-lvl4'?: string;
+    postcode?: string;
+    country_code?: string;
+  };
+}
+
+interface NominatimOptions {
+  name: string;
+  baseUrl: string;
+  rateLimitMs: number;
+  params?: Record<string, string>;
+}
+
+const USER_AGENT = 'EnergyDrinkFinder/1.0';
+
+/**
+ * Map Nominatim's address details to our structured address
+ */
+function toStructuredAddress(details: NonNullable<NominatimReverseResult['address']>): StructuredAddress {
+  // "US-NY" style ISO code is the most reliable source for the state abbreviation
+  const isoState = details['ISO3166-2-lvl4']?.split('-')[1];
+  const street = details.road;
+  const address = [details.house_number, street].filter(Boolean).join(' ') || undefined;
+
+  return {
+    house_number: details.house_number,
+    street,
+    address,
+    city: details.city || details.town || details.village || details.hamlet,
+    state: toStateCode(isoState) || toStateCode(details.state),
+    zip_code: details.postcode,
+    country: details.country_code?.toUpperCase(),
+  };
+}
+
+function createNominatimCompatibleProvider(options: NominatimOptions): GeocodingProvider {
+  const { name, baseUrl, rateLimitMs, params = {} } = options;
+
+  const request = async <T>(path: string, query: Record<string, string>): Promise<T> => {
+    const url = new URL(`${baseUrl.replace(/\/$/, '')}/${path}`);
+    for (const [key, value] of Object.entries({ ...query, format: 'json', ...params })) {
+      url.searchParams.append(key, value);
+    }
+
+    const response = await fetch(url.toString(), {
+      headers: {
+        'User-Agent': USER_AGENT,
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unable to read error response');
+      throw new Error(`Geocoding API error: ${response.status} ${response.statusText} - ${errorText}`);
+    }
+
+    return response.json();
+  };
+
+  return {
+    name,
+    rateLimitMs,
+    async search(query: string): Promise<GeocodeResult[]> {
+      const data = await request<NominatimSearchResult[]>('search', { q: query });
+
+      return (data || []).map((result) => ({
+        latitude: parseFloat(result.lat),
+        longitude: parseFloat(result.lon),
+        display_name: result.display_name,
+        boundingbox: result.boundingbox,
+      }));
+    },
+    async reverse(latitude: number, longitude: number): Promise<ReverseGeocodeResult | null> {
+      const data = await request<NominatimReverseResult>('reverse', {
+        lat: latitude.toString(),
+        lon: longitude.toString(),
+        addressdetails: '1',
+      });
+
+      // Nominatim answers "Unable to geocode" with a 200 and an error field
+      if (!data || data.error || !data.address) {
+        return null;
+      }
+
+      return {
+        latitude: parseFloat(data.lat),
+        longitude: parseFloat(data.lon),
+        display_name: data.display_name,
+        boundingbox: data.boundingbox,
+        address: toStructuredAddress(data.address),
+      };
+    },
+  };
+}
+
+/**
+ * geocode.maps.co client (requires an API key)
+ * Free tier allows 2 requests per second.
+ */
+export function createMapsCoProvider(apiKey: string): GeocodingProvider {
+  return createNominatimCompatibleProvider({
+    name: 'maps-co',
+    baseUrl: 'https://geocode.maps.co',
+    rateLimitMs: 600,
+    params: { api_key: apiKey },
+  });
+}
+
+/**
+ * Nominatim client, for the public OSM instance or a self-hosted server
+ * The public instance's usage policy allows at most 1 request per second
+ * and asks for a contact email on bulk usage.
+ */
+export function createNominatimProvider(
+  options: { baseUrl?: string; email?: string } = {}
+): GeocodingProvider {
+  const { baseUrl = 'https://nominatim.openstreetmap.org', email } = options;
+
+  return createNominatimCompatibleProvider({
+    name: 'nominatim',
+    baseUrl,
+    rateLimitMs: 1000,
+    params: email ? { email } : {},
+  });
+}
@@ -0,0 +1,52 @@
+/**
+ * Shared types for geocoding providers
+ */
+
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+  display_name?: string;
+  boundingbox?: [string, string, string, string];
+}
+
+/**
+ * Address parts returned by reverse geocoding
+ * `state` is a 2-letter code when the provider reports one (or a US state name we can map).
+ */
+export interface StructuredAddress {
+  house_number?: string;
+  street?: string;
+  /** House number and street, e.g. "555 5th Avenue" */
+  address?: string;
+  city?: string;
+  state?: string;
+  zip_code?: string;
+  /** ISO 3166-1 alpha-2 country code, uppercase */
+  country?: string;
+}
+
+export interface ReverseGeocodeResult extends GeocodeResult {
+  address: StructuredAddress;
+}
+
+export interface AddressComponents {
+  address?: string;
+  city?: string;
+  state?: string;
+  zip_code?: string;
+  country?: string;
+}
+
+/**
+ * A geocoding backend. Implementations return an empty array when an
+ * address has no match and throw on transport or API errors.
+ */
+export interface GeocodingProvider {
+  /** Identifier used in GEOCODING_PROVIDER and stored alongside results */
+  readonly name: string;
+  /** Minimum delay between requests that the backend's rate limit allows */
+  readonly rateLimitMs: number;
+  search(query: string): Promise<GeocodeResult[]>;
+  /** Address at a coordinate, or null when the provider has nothing there */
+  reverse(latitude: number, longitude: number): Promise<ReverseGeocodeResult | null>;
+}
@@ -0,0 +1,275 @@
+/**
+ * Store opening hours
+ *
+ * Hours are stored in stores.hours_json as a StoreHours object, e.g.
+ *
+ *   {
+ *     "timezone": "America/New_York",
+ *     "days": {
+ *       "monday": [{ "open": "06:00", "close": "22:00" }],
+ *       "friday": [{ "open": "06:00", "close": "02:00" }]
+ *     }
+ *   }
+ *
+ * Friday's range closes at 02:00 on Saturday. `{ "always_open": true }` marks a 24/7 store.
+ * "Open now" is evaluated in the store's time zone, which defaults to the main
+ * time zone of the store's state when hours_json doesn't name one.
+ */
+
+import type { StoreHours, TimeRange, Weekday } from '@/types';
+
+export const WEEKDAYS: readonly Weekday[] = [
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+  'sunday',
+];
+
+export type StoreHoursValidation =
+  | { valid: true; hours: StoreHours }
+  | { valid: false; error: string };
+
+const TIME_PATTERN = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+
+const DEFAULT_TIME_ZONE = 'America/New_York';
+
+// Main time zone of each state; stores in split states can set hours_json.timezone
+const STATE_TIME_ZONES: Record<string, string> = {
+  AK: 'America/Anchorage', AL: 'America/Chicago', AR: 'America/Chicago', AZ: 'America/Phoenix',
+  CA: 'America/Los_Angeles', CO: 'America/Denver', CT: 'America/New_York', DC: 'America/New_York',
+  DE: 'America/New_York', FL: 'America/New_York', GA: 'America/New_York', HI: 'Pacific/Honolulu',
+  IA: 'America/Chicago', ID: 'America/Boise', IL: 'America/Chicago', IN: 'America/Indiana/Indianapolis',
+  KS: 'America/Chicago', KY: 'America/New_York', LA: 'America/Chicago', MA: 'America/New_York',
+  MD: 'America/New_York', ME: 'America/New_York', MI: 'America/Detroit', MN: 'America/Chicago',
+  MO: 'America/Chicago', MS: 'America/Chicago', MT: 'America/Denver', NC: 'America/New_York',
+  ND: 'America/Chicago', NE: 'America/Chicago', NH: 'America/New_York', NJ: 'America/New_York',
+  NM: 'America/Denver', NV: 'America/Los_Angeles', NY: 'America/New_York', OH: 'America/New_York',
+  OK: 'America/Chicago', OR: 'America/Los_Angeles', PA: 'America/New_York', PR: 'America/Puerto_Rico',
+  RI: 'America/New_York', SC: 'America/New_York', SD: 'America/Chicago', TN: 'America/Chicago',
+  TX: 'America/Chicago', UT: 'America/Denver', VA: 'America/New_York', VT: 'America/New_York',
+  WA: 'America/Los_Angeles', WI: 'America/Chicago', WV: 'America/New_York', WY: 'America/Denver',
+};
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate hours before they are written to stores.hours_json
+ *
+ * @param input - Parsed JSON from a request body
+ * @returns The hours with unknown keys dropped, or an error message
+ */
+export function validateStoreHours(input: unknown): StoreHoursValidation {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { valid: false, error: 'Hours must be an object' };
+  }
+
+  const { timezone, always_open, days } = input as Record<string, unknown>;
+  const hours: StoreHours = {};
+
+  if (timezone !== undefined && timezone !== null && timezone !== '') {
+    if (typeof timezone !== 'string' || !isValidTimeZone(timezone)) {
+      return { valid: false, error: `Unknown time zone: ${timezone}` };
+    }
+    hours.timezone = timezone;
+  }
+
+  if (always_open !== undefined && typeof always_open !== 'boolean') {
+    return { valid: false, error: 'always_open must be true or false' };
+  }
+
+  if (always_open) {
+    hours.always_open = true;
+    return { valid: true, hours };
+  }
+
+  if (days === undefined || days === null) {
+    return { valid: false, error: 'Hours need either always_open or days' };
+  }
+
+  if (typeof days !== 'object' || Array.isArray(days)) {
+    return { valid: false, error: 'days must be an object keyed by weekday' };
+  }
+
+  hours.days = {};
+
+  for (const [day, ranges] of Object.entries(days)) {
+    if (!WEEKDAYS.includes(day as Weekday)) {
+      return { valid: false, error: `Unknown weekday: ${day}` };
+    }
+
+    if (!Array.isArray(ranges)) {
+      return { valid: false, error: `Hours for ${day} must be a list of ranges` };
+    }
+
+    const cleaned: TimeRange[] = [];
+
+    for (const range of ranges) {
+      const open = range?.open;
+      const close = range?.close;
+
+      if (typeof open !== 'string' || typeof close !== 'string') {
+        return { valid: false, error: `Each range on ${day} needs an open and close time` };
+      }
+
+      if (!TIME_PATTERN.test(open) || open === '24:00' || !TIME_PATTERN.test(close)) {
+        return { valid: false, error: `Times on ${day} must be HH:MM (24-hour), got ${open}-${close}` };
+      }
+
+      cleaned.push({ open, close });
+    }
+
+    hours.days[day as Weekday] = cleaned.sort((a, b) => toMinutes(a.open) - toMinutes(b.open));
+  }
+
+  return { valid: true, hours };
+}
+
+/**
+ * Time zone used to evaluate a store's hours
+ */
+export function getStoreTimeZone(hours: StoreHours | null | undefined, state?: string): string {
+  return hours?.timezone || (state && STATE_TIME_ZONES[state.toUpperCase()]) || DEFAULT_TIME_ZONE;
+}
+
+/**
+ * Weekday and minutes since midnight of a moment in a time zone
+ */
+function localTime(date: Date, timeZone: string): { weekday: Weekday; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+
+  return {
+    weekday: part('weekday').toLowerCase() as Weekday,
+    minutes: parseInt(part('hour')) * 60 + parseInt(part('minute')),
+  };
+}
+
+function previousWeekday(weekday: Weekday): Weekday {
+  return WEEKDAYS[(WEEKDAYS.indexOf(weekday) + 6) % 7];
+}
+
+function isOvernight(range: TimeRange): boolean {
+  return toMinutes(range.close) <= toMinutes(range.open);
+}
+
+/**
+ * Whether a store is open at a given moment
+ *
+ * @param hours - The store's hours_json
+ * @param timeZone - Store time zone (see getStoreTimeZone)
+ * @param date - Moment to check (default: now)
+ * @returns true/false, or null when the store has no hours on record
+ */
+export function isOpenAt(
+  hours: StoreHours | null | undefined,
+  timeZone: string,
+  date: Date = new Date()
+): boolean | null {
+  if (!hours) return null;
+  if (hours.always_open) return true;
+  if (!hours.days) return null;
+
+  const { weekday, minutes } = localTime(date, timeZone);
+
+  // Today's ranges, including ones that run past midnight
+  const openToday = (hours.days[weekday] ?? []).some((range) => {
+    const open = toMinutes(range.open);
+    return isOvernight(range) ? minutes >= open : minutes >= open && minutes < toMinutes(range.close);
+  });
+
+  // Yesterday's overnight ranges that haven't closed yet
+  const openFromYesterday = (hours.days[previousWeekday(weekday)] ?? []).some(
+    (range) => isOvernight(range) && minutes < toMinutes(range.close)
+  );
+
+  return openToday || openFromYesterday;
+}
+
+/**
+ * Open now, evaluated in the store's local time zone
+ */
+export function isStoreOpenNow(
+  store: { hours_json?: StoreHours | null; state?: string },
+  date: Date = new Date()
+): boolean | null {
+  return isOpenAt(store.hours_json, getStoreTimeZone(store.hours_json, store.state), date);
+}
+
+/**
+ * Format one day's ranges for display and editing, e.g. "06:00-14:00, 16:00-22:00"
+ */
+export function formatDayHours(ranges: TimeRange[] | undefined): string {
+  return (ranges ?? []).map((range) => `${range.open}-${range.close}`).join(', ');
+}
+
+/**
+ * Parse text written by formatDayHours back into ranges
+ *
+ * @returns The ranges (empty for blank or "closed"), or null if the text can't be parsed
+ */
+export function parseDayHours(text: string): TimeRange[] | null {
+  const trimmed = text.trim();
+
+  if (!trimmed || trimmed.toLowerCase() === 'closed') {
+    return [];
+  }
+
+  const ranges: TimeRange[] = [];
+
+  for (const part of trimmed.split(',')) {
+    const match = part.trim().match(/^(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/);
+
+    if (!match) return null;
+
+    const [open, close] = [match[1].padStart(5, '0'), match[2].padStart(5, '0')];
+
+    if (!TIME_PATTERN.test(open) || !TIME_PATTERN.test(close)) return null;
+
+    ranges.push({ open, close });
+  }
+
+  return ranges;
+}
+
+/**
+ * Today's hours at a store as a display string, e.g. "Open 24 hours" or "06:00-22:00"
+ *
+ * @returns null when the store has no hours on record
+ */
+export function getTodayHours(
+  store: { hours_json?: StoreHours | null; state?: string },
+  date: Date = new Date()
+): string | null {
+  const hours = store.hours_json;
+
+  if (!hours) return null;
+  if (hours.always_open) return 'Open 24 hours';
+  if (!hours.days) return null;
+
+  const { weekday } = localTime(date, getStoreTimeZone(hours, store.state));
+  const ranges = hours.days[weekday];
+
+  return ranges && ranges.length > 0 ? formatDayHours(ranges) : 'Closed today';
+}
@@ -0,0 +1,90 @@
+/**
+ * Web Mercator tile math (the z/x/y scheme used by MapLibre and OSM)
+ *
+ * MapView loads stores one tile at a time so tiles it has already seen can be
+ * served from memory when the map moves back over them.
+ */
+
+import type { BoundingBox } from '@/types';
+
+// Web Mercator doesn't reach the poles
+const MAX_LATITUDE = 85.0511;
+
+// Below this zoom /api/stores/in-bounds groups nearby stores into clusters
+export const CLUSTER_MAX_ZOOM = 14;
+
+// Circumference of the Web Mercator world (EPSG:3857) in meters
+export const WEB_MERCATOR_WORLD_SIZE = 40075016.68557849;
+
+export interface Tile {
+  z: number;
+  x: number;
+  y: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+function lonToTileX(longitude: number, z: number): number {
+  const x = Math.floor(((longitude + 180) / 360) * 2 ** z);
+  return clamp(x, 0, 2 ** z - 1);
+}
+
+function latToTileY(latitude: number, z: number): number {
+  const rad = (clamp(latitude, -MAX_LATITUDE, MAX_LATITUDE) * Math.PI) / 180;
+  const y = Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** z);
+  return clamp(y, 0, 2 ** z - 1);
+}
+
+function tileYToLat(y: number, z: number): number {
+  return (Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / 2 ** z))) * 180) / Math.PI;
+}
+
+export function tileKey({ z, x, y }: Tile): string {
+  return `${z}/${x}/${y}`;
+}
+
+/**
+ * Area covered by a tile
+ */
+export function tileToBounds({ z, x, y }: Tile): BoundingBox {
+  return {
+    south: tileYToLat(y + 1, z),
+    west: (x / 2 ** z) * 360 - 180,
+    north: tileYToLat(y, z),
+    east: ((x + 1) / 2 ** z) * 360 - 180,
+  };
+}
+
+/**
+ * Tile at a lower zoom level that contains the given tile
+ */
+export function parentTile({ z, x, y }: Tile, parentZ: number): Tile {
+  const shift = z - parentZ;
+  return { z: parentZ, x: x >> shift, y: y >> shift };
+}
+
+/**
+ * Tiles at zoom level z covering an area
+ * Longitudes outside -180..180 (a map panned across the antimeridian) are clamped.
+ */
+export function tilesInBounds(bounds: BoundingBox, z: number): Tile[] {
+  const minX = lonToTileX(clamp(bounds.west, -180, 180), z);
+  const maxX = lonToTileX(clamp(bounds.east, -180, 180), z);
+  const minY = latToTileY(bounds.north, z);
+  const maxY = latToTileY(bounds.south, z);
+  const tiles: Tile[] = [];
+
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) {
+      tiles.push({ z, x, y });
+    }
+  }
+
+  return tiles;
+}
+
+export function isInBounds(latitude: number, longitude: number, bounds: BoundingBox): boolean {
+  return (
+    latitude >= bounds.south && latitude <= bounds.north && longitude >= bounds.west && longitude <= bounds.east
+  );
+}
@@ -0,0 +1,135 @@
+/**
+ * OpenStreetMap opening_hours parser
+ *
+ * Converts the common subset of the OSM `opening_hours` syntax into StoreHours:
+ *
+ *   24/7
+ *   Mo-Fr 06:00-22:00; Sa,Su 08:00-20:00
+ *   Mo-Th 06:00-23:00; Fr,Sa 06:00-02:00; Su off
+ *   05:00-23:00                      (no weekdays = every day)
+ *
+ * Later rules override earlier ones for the days they name, as in OSM.
+ * Public holiday (PH) rules are skipped since we don't model holidays.
+ * Anything else (months, school holidays, sunrise, open-ended
+ * "+" ranges, comments) makes the whole value unparseable, so we never store
+ * hours that only partly reflect what's in OpenStreetMap.
+ *
+ * Docs: https://wiki.openstreetmap.org/wiki/Key:opening_hours/specification
+ */
+
+import type { StoreHours, TimeRange, Weekday } from '@/types';
+import { WEEKDAYS } from './hours';
+
+const OSM_WEEKDAYS: Record<string, Weekday> = {
+  Mo: 'monday',
+  Tu: 'tuesday',
+  We: 'wednesday',
+  Th: 'thursday',
+  Fr: 'friday',
+  Sa: 'saturday',
+  Su: 'sunday',
+};
+
+const DAY_TOKEN = /^(Mo|Tu|We|Th|Fr|Sa|Su)(-(Mo|Tu|We|Th|Fr|Sa|Su))?$/;
+const TIME_RANGE = /^(\d{1,2}):(\d{2})-(\d{1,2}):(\d{2})$/;
+
+function toTime(hours: string, minutes: string): string | null {
+  const h = parseInt(hours);
+  const m = parseInt(minutes);
+
+  // OSM allows closing times past midnight like 26:00; fold them back into the next day
+  if (m > 59 || h > 48 || (h === 48 && m > 0)) return null;
+  if (h === 24 && m === 0) return '24:00';
+
+  return `${String(h % 24).padStart(2, '0')}:${minutes}`;
+}
+
+/**
+ * Expand a weekday selector like "Mo-Fr,Su" into weekdays
+ */
+function parseDays(selector: string): Weekday[] | null {
+  const days: Weekday[] = [];
+
+  for (const token of selector.split(',')) {
+    if (token.trim() === 'PH') continue;
+
+    const match = token.trim().match(DAY_TOKEN);
+    if (!match) return null;
+
+    const start = WEEKDAYS.indexOf(OSM_WEEKDAYS[match[1]]);
+    const end = match[3] ? WEEKDAYS.indexOf(OSM_WEEKDAYS[match[3]]) : start;
+
+    // Ranges can wrap around the week, e.g. Sa-Mo
+    for (let i = start; ; i = (i + 1) % 7) {
+      days.push(WEEKDAYS[i]);
+      if (i === end) break;
+    }
+  }
+
+  return days;
+}
+
+/**
+ * Parse a time list like "06:00-14:00,16:00-22:00"
+ */
+function parseTimes(selector: string): TimeRange[] | null {
+  const ranges: TimeRange[] = [];
+
+  for (const token of selector.split(',')) {
+    const match = token.trim().match(TIME_RANGE);
+    if (!match) return null;
+
+    const open = toTime(match[1], match[2]);
+    const close = toTime(match[3], match[4]);
+    if (!open || !close || open === '24:00') return null;
+
+    ranges.push({ open, close });
+  }
+
+  return ranges;
+}
+
+/**
+ * Parse an OSM opening_hours value
+ *
+ * @param value - The opening_hours tag
+ * @returns StoreHours (without a time zone), or null if the value uses syntax we don't support
+ */
+export function parseOpeningHours(value: string | undefined): StoreHours | null {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+
+  if (trimmed === '24/7') {
+    return { always_open: true };
+  }
+
+  const days: Partial<Record<Weekday, TimeRange[]>> = {};
+
+  // Rules are separated by ";", and sometimes by ", " before a new weekday selector
+  const rules = trimmed
+    .split(/;|(?<=\d),\s*(?=(?:Mo|Tu|We|Th|Fr|Sa|Su|PH)\b)/)
+    .map((rule) => rule.trim())
+    .filter(Boolean);
+
+  for (const rule of rules) {
+    const match = rule.match(/^((?:Mo|Tu|We|Th|Fr|Sa|Su|PH)[A-Za-z,\- ]*?)?\s*([\d:,\- ]+|off|closed)$/);
+    if (!match) return null;
+    if (match[1]?.trim() === 'PH') continue;
+
+    const ruleDays = match[1] ? parseDays(match[1].replace(/\s+/g, '')) : [...WEEKDAYS];
+    const times = match[2] === 'off' || match[2] === 'closed' ? [] : parseTimes(match[2].replace(/\s+/g, ''));
+
+    if (!ruleDays || !times) return null;
+
+    for (const day of ruleDays) {
+      days[day] = times;
+    }
+  }
+
+  // Every day open around the clock is how some mappers write 24/7
+  const aroundTheClock = WEEKDAYS.every((day) =>
+    days[day]?.some((range) => range.open === '00:00' && range.close === '24:00')
+  );
+
+  return aroundTheClock ? { always_open: true } : { days };
+}
@@ -7,6 +7,10 @@
  * Docs: https://wiki.openstreetmap.org/wiki/Overpass_API
  */
 
+import type { BoundingBox, StoreHours, StoreType } from '@/types';
+import { parseOpeningHours } from './opening-hours';
+import { STORE_TYPES, STORE_TYPE_LABELS } from './store-types';
+
 interface OverpassElement {
   type: 'node' | 'way' | 'relation';
   id: number;
@@ -22,7 +26,15 @@ interface OverpassElement {
     'addr:postcode'?: string;
     brand?: string;
     amenity?: string;
+    shop?: string;
+    vending?: string;
     fuel?: string;
+    opening_hours?: string;
+    phone?: string;
+    'contact:phone'?: string;
+    website?: string;
+    'contact:website'?: string;
+    operator?: string;
   };
 }
 
@@ -32,7 +44,63 @@ interface OverpassResponse {
   elements: OverpassElement[];
 }
 
-export interface GasStation {
+/** Placeholders used when a station has no address tags in OpenStreetMap */
+export const MISSING_ADDRESS = 'Address not available';
+export const MISSING_CITY = 'Unknown';
+export const MISSING_STATE = 'Unknown';
+export const MISSING_ZIP_CODE = '00000';
+
+// Column sizes in the stores table
+const MAX_PHONE_LENGTH = 20;
+const MAX_WEBSITE_LENGTH = 500;
+const MAX_OPERATOR_LENGTH = 255;
+
+type OverpassTags = OverpassElement['tags'];
+
+/**
+ * Overpass filters for each store type, and how to recognize a returned element as that type
+ */
+const STORE_TYPE_QUERIES: Record<StoreType, { filters: string[]; matches: (tags: OverpassTags) => boolean }> = {
+  fuel: {
+    filters: ['["amenity"="fuel"]'],
+    matches: (tags) => tags.amenity === 'fuel',
+  },
+  convenience: {
+    filters: ['["shop"="convenience"]'],
+    matches: (tags) => tags.shop === 'convenience',
+  },
+  supermarket: {
+    filters: ['["shop"="supermarket"]'],
+    matches: (tags) => tags.shop === 'supermarket',
+  },
+  kiosk: {
+    filters: ['["shop"="kiosk"]'],
+    matches: (tags) => tags.shop === 'kiosk',
+  },
+  pharmacy: {
+    filters: ['["amenity"="pharmacy"]', '["shop"="chemist"]'],
+    matches: (tags) => tags.amenity === 'pharmacy' || tags.shop === 'chemist',
+  },
+  vending: {
+    // Only machines that sell drinks
+    filters: ['["amenity"="vending_machine"]["vending"~"drinks"]'],
+    matches: (tags) => tags.amenity === 'vending_machine' && /drinks/.test(tags.vending ?? ''),
+  },
+};
+
+/**
+ * Store type of an element, preferring the requested type that comes first in STORE_TYPES
+ * (a fuel station tagged shop=convenience is a 'fuel' store unless only convenience stores were requested)
+ */
+function storeTypeOf(tags: OverpassTags, storeTypes: readonly StoreType[]): StoreType | undefined {
+  return STORE_TYPES.find((type) => storeTypes.includes(type) && STORE_TYPE_QUERIES[type].matches(tags));
+}
+
+export interface DiscoveredStore {
+  /** OpenStreetMap element the store was read from */
+  osmType: 'node' | 'way' | 'relation';
+  osmId: number;
+  storeType: StoreType;
   name: string;
   address: string;
   city: string;
@@ -41,28 +109,42 @@ export interface GasStation {
   latitude: number;
   longitude: number;
   brand?: string;
+  phone?: string;
+  website?: string;
+  operator?: string;
+  /** Parsed opening_hours tag; undefined when missing or in syntax we can't parse */
+  hours?: StoreHours;
+}
+
+function fitsColumn(value: string | undefined, maxLength: number): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed && trimmed.length <= maxLength ? trimmed : undefined;
 }
 
 /**
- * Query OpenStreetMap Overpass API for gas stations near a location
+ * First phone number from a tag, which may hold several separated by ";"
+ */
+function parsePhone(value: string | undefined): string | undefined {
+  return fitsColumn(value?.split(';')[0], MAX_PHONE_LENGTH);
+}
+
+/**
+ * Run an Overpass query for the requested store types within an area filter
  *
- * @param latitude - Center latitude
- * @param longitude - Center longitude
- * @param radiusMeters - Search radius in meters (default: 5000m = 5km)
- * @returns Array of gas stations
+ * @param area - Overpass area filter, e.g. "(around:5000,40.75,-73.98)" or a bbox "(south,west,north,east)"
+ * @param storeTypes - Categories of places to look for
+ * @returns Array of stores
  */
-export async function findNearbyGasStations(
-  latitude: number,
-  longitude: number,
-  radiusMeters: number = 5000
-): Promise<GasStation[]> {
-  // Overpass QL query to find gas stations
-  // amenity=fuel finds all gas/petrol stations
+async function queryStores(area: string, storeTypes: readonly StoreType[]): Promise<DiscoveredStore[]> {
+  // Overpass QL query with a node and a way clause for every filter of the requested types
+  const clauses = storeTypes
+    .flatMap((type) => STORE_TYPE_QUERIES[type].filters)
+    .flatMap((filter) => [`node${filter}${area};`, `way${filter}${area};`]);
+
   const query = `
     [out:json];
     (
-      node["amenity"="fuel"](around:${radiusMeters},${latitude},${longitude});
-      way["amenity"="fuel"](around:${radiusMeters},${latitude},${longitude});
+      ${clauses.join('\n      ')}
     );
     out center;
   `;
@@ -82,37 +164,46 @@ export async function findNearbyGasStations(
 
     const data: OverpassResponse = await response.json();
 
-    // Transform Overpass results to our GasStation format
-    const stations: GasStation[] = data.elements
+    // Transform Overpass results to our DiscoveredStore format
+    const stores: DiscoveredStore[] = data.elements
       .filter((element) => {
-        // Must have coordinates and a name
+        // Must have coordinates, a requested type and a name (vending machines rarely have one)
         const lat = element.lat ?? element.center?.lat;
         const lon = element.lon ?? element.center?.lon;
-        return lat && lon && element.tags.name;
+        const storeType = storeTypeOf(element.tags, storeTypes);
+        return lat && lon && storeType && (element.tags.name || storeType === 'vending');
       })
       .map((element) => {
         const lat = element.lat ?? element.center!.lat;
         const lon = element.lon ?? element.center!.lon;
         const tags = element.tags;
+        const storeType = storeTypeOf(tags, storeTypes)!;
 
         // Build address from OSM tags
         const streetNumber = tags['addr:housenumber'] || '';
         const street = tags['addr:street'] || '';
-        const address = `${streetNumber} ${street}`.trim() || 'Address not available';
+        const address = `${streetNumber} ${street}`.trim() || MISSING_ADDRESS;
 
         return {
-          name: tags.brand || tags.name || 'Unknown Gas Station',
+          osmType: element.type,
+          osmId: element.id,
+          storeType,
+          name: tags.brand || tags.name || tags.operator || STORE_TYPE_LABELS[storeType],
           address,
-          city: tags['addr:city'] || 'Unknown',
-          state: tags['addr:state'] || 'Unknown',
-          zipCode: tags['addr:postcode'] || '00000',
+          city: tags['addr:city'] || MISSING_CITY,
+          state: tags['addr:state'] || MISSING_STATE,
+          zipCode: tags['addr:postcode'] || MISSING_ZIP_CODE,
           latitude: lat,
           longitude: lon,
           brand: tags.brand,
+          phone: parsePhone(tags.phone || tags['contact:phone']),
+          website: fitsColumn(tags.website || tags['contact:website'], MAX_WEBSITE_LENGTH),
+          operator: fitsColumn(tags.operator, MAX_OPERATOR_LENGTH),
+          hours: parseOpeningHours(tags.opening_hours) ?? undefined,
         };
       });
 
-    return stations;
+    return stores;
   } catch (error) {
     console.error('Error fetching from Overpass API:', error);
     throw error;
@@ -120,15 +211,51 @@ export async function findNearbyGasStations(
 }
 
 /**
- * Rate-limited version of findNearbyGasStations
+ * Query OpenStreetMap Overpass API for stores near a location
+ *
+ * @param latitude - Center latitude
+ * @param longitude - Center longitude
+ * @param radiusMeters - Search radius in meters (default: 5000m = 5km)
+ * @param storeTypes - Categories of places to look for (default: all store types)
+ * @returns Array of stores
+ */
+export async function findNearbyStores(
+  latitude: number,
+  longitude: number,
+  radiusMeters: number = 5000,
+  storeTypes: readonly StoreType[] = STORE_TYPES
+): Promise<DiscoveredStore[]> {
+  return queryStores(`(around:${radiusMeters},${latitude},${longitude})`, storeTypes);
+}
+
+/**
+ * Query OpenStreetMap Overpass API for stores inside a bounding box
+ * Ways crossing the edge are included (by their center), so adjacent boxes can
+ * return the same element.
+ *
+ * @param bounds - Box to search; keep it small (a few km across) to stay under Overpass limits
+ * @param storeTypes - Categories of places to look for (default: all store types)
+ * @returns Array of stores
+ */
+export async function findStoresInBounds(
+  bounds: BoundingBox,
+  storeTypes: readonly StoreType[] = STORE_TYPES
+): Promise<DiscoveredStore[]> {
+  const { south, west, north, east } = bounds;
+  return queryStores(`(${south},${west},${north},${east})`, storeTypes);
+}
+
+/**
+ * Rate-limited version of findNearbyStores
  * Overpass API requests should be rate-limited to be respectful
  */
-export async function findNearbyGasStationsRateLimited(
+export async function findNearbyStoresRateLimited(
   latitude: number,
   longitude: number,
-  radiusMeters: number = 5000
-): Promise<GasStation[]> {
+  radiusMeters: number = 5000,
+  storeTypes: readonly StoreType[] = STORE_TYPES
+): Promise<DiscoveredStore[]> {
   // Wait 1 second before making request (be nice to free API)
   await new Promise((resolve) => setTimeout(resolve, 1000));
-  return findNearbyGasStations(latitude, longitude, radiusMeters);
+  return findNearbyStores(latitude, longitude, radiusMeters, storeTypes);
 }
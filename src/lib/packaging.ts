@@ -0,0 +1,22 @@
+/**
+ * Barcode packaging types
+ *
+ * A drink can have several barcodes (the drink_barcodes table): its single can,
+ * multipacks and cases, and promo or regional printings of the can.
+ */
+
+import type { PackagingType } from '@/types';
+
+export const PACKAGING_TYPES: readonly PackagingType[] = ['single', 'multipack', 'case', 'promo', 'regional'];
+
+export const PACKAGING_LABELS: Record<PackagingType, string> = {
+  single: 'Single',
+  multipack: 'Multipack',
+  case: 'Case',
+  promo: 'Promo',
+  regional: 'Regional',
+};
+
+export function isPackagingType(value: unknown): value is PackagingType {
+  return typeof value === 'string' && PACKAGING_TYPES.includes(value as PackagingType);
+}
@@ -0,0 +1,122 @@
+/**
+ * Reporting whether a store has a drink
+ *
+ * A single report that contradicts the inventory is only recorded: the shelf may
+ * have been restocked a minute later, or the reporter looked in the wrong fridge.
+ * Availability flips once reports on REPORTS_TO_FLIP different days within
+ * REPORT_WINDOW_DAYS agree. Several reports on one day count once, like in
+ * inventory_evidence (migration 011), so one person can't flip a drink by
+ * reporting it twice.
+ *
+ * Every report is logged in price_history, the inventory timeline, so it shows up
+ * in GET /api/price-history and counts towards the entry's confidence
+ * (see confidence.ts) even before it flips anything.
+ */
+
+import type { NeonQueryFunction } from '@neondatabase/serverless';
+import type { StockReportResult } from '@/types';
+
+export const REPORTS_TO_FLIP = 2;
+const REPORT_WINDOW_DAYS = 7;
+
+/**
+ * Record that a drink is (or isn't) on a store's shelf
+ *
+ * Reports that agree with the inventory refresh it. Reports for a drink the store
+ * doesn't list are only logged, without a price: there is no inventory row to
+ * flip, and one is only added by a scan with a price.
+ */
+export async function reportStock(
+  sql: NeonQueryFunction<false, false>,
+  storeId: number,
+  drinkId: number,
+  inStock: boolean
+): Promise<StockReportResult> {
+  const inventoryResult = await sql`
+    SELECT COALESCE(in_stock, true) as in_stock, price, last_updated
+    FROM store_inventory
+    WHERE store_id = ${storeId} AND drink_id = ${drinkId}
+  `;
+
+  if (inventoryResult.length === 0) {
+    const [earlierResult] = await sql.transaction([
+      sql`
+        SELECT COUNT(DISTINCT date_trunc('day', observed_at))::int as count
+        FROM price_history
+        WHERE store_id = ${storeId}
+        AND drink_id = ${drinkId}
+        AND COALESCE(in_stock, true) = ${inStock}
+        AND observed_at > CURRENT_TIMESTAMP - make_interval(days => ${REPORT_WINDOW_DAYS})
+        AND observed_at < date_trunc('day', CURRENT_TIMESTAMP)
+      `,
+      sql`
+        INSERT INTO price_history (store_id, drink_id, price, in_stock)
+        VALUES (${storeId}, ${drinkId}, NULL, ${inStock})
+      `,
+    ]);
+
+    return {
+      in_stock: false,
+      listed: false,
+      flipped: false,
+      agreeing_reports: earlierResult[0].count + 1,
+      reports_to_flip: REPORTS_TO_FLIP,
+    };
+  }
+
+  const inventory = inventoryResult[0];
+
+  if (inventory.in_stock === inStock) {
+    // The price_history trigger logs the confirmation
+    await sql`
+      UPDATE store_inventory
+      SET last_updated = CURRENT_TIMESTAMP
+      WHERE store_id = ${storeId} AND drink_id = ${drinkId}
+    `;
+
+    return { in_stock: inStock, listed: true, flipped: false, agreeing_reports: 1, reports_to_flip: REPORTS_TO_FLIP };
+  }
+
+  // Earlier days with a report that already disagreed with the inventory since it last changed
+  const pendingResult = await sql`
+    SELECT COUNT(DISTINCT date_trunc('day', observed_at))::int as count
+    FROM price_history
+    WHERE store_id = ${storeId}
+    AND drink_id = ${drinkId}
+    AND COALESCE(in_stock, true) = ${inStock}
+    AND observed_at > ${inventory.last_updated}
+    AND observed_at > CURRENT_TIMESTAMP - make_interval(days => ${REPORT_WINDOW_DAYS})
+    AND observed_at < date_trunc('day', CURRENT_TIMESTAMP)
+  `;
+
+  const agreeingReports = pendingResult[0].count + 1;
+
+  if (agreeingReports >= REPORTS_TO_FLIP) {
+    await sql`
+      UPDATE store_inventory
+      SET in_stock = ${inStock}, last_updated = CURRENT_TIMESTAMP
+      WHERE store_id = ${storeId} AND drink_id = ${drinkId}
+    `;
+
+    return {
+      in_stock: inStock,
+      listed: true,
+      flipped: true,
+      agreeing_reports: agreeingReports,
+      reports_to_flip: REPORTS_TO_FLIP,
+    };
+  }
+
+  await sql`
+    INSERT INTO price_history (store_id, drink_id, price, in_stock)
+    VALUES (${storeId}, ${drinkId}, ${inventory.price}, ${inStock})
+  `;
+
+  return {
+    in_stock: inventory.in_stock,
+    listed: true,
+    flipped: false,
+    agreeing_reports: agreeingReports,
+    reports_to_flip: REPORTS_TO_FLIP,
+  };
+}
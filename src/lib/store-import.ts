@@ -0,0 +1,115 @@
+/**
+ * Importing discovered OpenStreetMap stores
+ *
+ * Shared by POST /api/stores/discover and the db/sync-stores.ts area sync.
+ * Callers match each discovered store against existing ones first
+ * (see store-matching.ts), then either refresh the matched store or insert a new one.
+ */
+
+import type { NeonQueryFunction } from '@neondatabase/serverless';
+import { reverseGeocode, type GeocodingProvider } from './geocode';
+import { toStateCode } from './geocoding';
+import { MISSING_ADDRESS, MISSING_CITY, MISSING_ZIP_CODE, type DiscoveredStore } from './overpass';
+
+/**
+ * Link a store to its OpenStreetMap element and refresh the tags OSM provides
+ * Values missing from OSM keep what the store already has. Seeing the element
+ * also clears a possibly-closed flag left by an earlier sync.
+ *
+ * @returns Whether the store's OSM link, name, phone, website, operator or hours changed
+ */
+export async function refreshStore(
+  sql: NeonQueryFunction<false, false>,
+  storeId: number,
+  store: DiscoveredStore
+): Promise<boolean> {
+  const rows = await sql`
+    WITH before AS (
+      SELECT id, name, osm_type, osm_id, phone, website, operator, hours_json
+      FROM stores
+      WHERE id = ${storeId}
+    )
+    UPDATE stores s
+    SET
+      name = ${store.name},
+      osm_type = ${store.osmType},
+      osm_id = ${store.osmId},
+      phone = COALESCE(${store.phone ?? null}, s.phone),
+      website = COALESCE(${store.website ?? null}, s.website),
+      operator = COALESCE(${store.operator ?? null}, s.operator),
+      hours_json = COALESCE(${store.hours ? JSON.stringify(store.hours) : null}::jsonb, s.hours_json),
+      last_seen_in_osm_at = CURRENT_TIMESTAMP,
+      possibly_closed_at = NULL
+    FROM before
+    WHERE s.id = before.id
+    RETURNING
+      (before.name, before.osm_type, before.osm_id, before.phone, before.website, before.operator, before.hours_json)
+        IS DISTINCT FROM
+      (s.name, s.osm_type, s.osm_id, s.phone, s.website, s.operator, s.hours_json) AS changed
+  `;
+
+  return rows[0]?.changed === true;
+}
+
+/**
+ * Insert a discovered store with its PostGIS location
+ *
+ * @returns The new store's id
+ */
+export async function insertStore(sql: NeonQueryFunction<false, false>, store: DiscoveredStore): Promise<number> {
+  const rows = await sql`
+    INSERT INTO stores (
+      name, store_type, address, city, state, zip_code, latitude, longitude, location,
+      phone, website, operator, hours_json, osm_type, osm_id, last_seen_in_osm_at
+    )
+    VALUES (
+      ${store.name},
+      ${store.storeType},
+      ${store.address},
+      ${store.city},
+      ${store.state},
+      ${store.zipCode},
+      ${store.latitude},
+      ${store.longitude},
+      ST_SetSRID(ST_MakePoint(${store.longitude}, ${store.latitude}), 4326)::geography,
+      ${store.phone ?? null},
+      ${store.website ?? null},
+      ${store.operator ?? null},
+      ${store.hours ? JSON.stringify(store.hours) : null}::jsonb,
+      ${store.osmType},
+      ${store.osmId},
+      CURRENT_TIMESTAMP
+    )
+    RETURNING id
+  `;
+
+  return rows[0].id;
+}
+
+/**
+ * Whether OpenStreetMap left any of the store's address fields empty
+ */
+export function hasMissingAddress(store: DiscoveredStore): boolean {
+  return (
+    store.address === MISSING_ADDRESS ||
+    store.city === MISSING_CITY ||
+    store.zipCode === MISSING_ZIP_CODE ||
+    !toStateCode(store.state)
+  );
+}
+
+/**
+ * Fill missing address fields by reverse geocoding the store's coordinates
+ * Fields that OpenStreetMap did provide are kept.
+ */
+export async function fillMissingAddress(store: DiscoveredStore, provider: GeocodingProvider): Promise<DiscoveredStore> {
+  const { address } = await reverseGeocode(store.latitude, store.longitude, provider);
+
+  return {
+    ...store,
+    address: store.address === MISSING_ADDRESS ? address.address || store.address : store.address,
+    city: store.city === MISSING_CITY ? address.city || store.city : store.city,
+    state: toStateCode(store.state) || address.state || store.state,
+    zipCode: store.zipCode === MISSING_ZIP_CODE ? address.zip_code || store.zipCode : store.zipCode,
+  };
+}
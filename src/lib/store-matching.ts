@@ -0,0 +1,80 @@
+/**
+ * Matching discovered OpenStreetMap stores to existing stores
+ *
+ * A discovered store is the same as an existing one when:
+ * 1. the existing store was imported from the same OSM element (type + id), or
+ * 2. it is within MATCH_RADIUS_M and its name is similar (pg_trgm similarity), or
+ * 3. it is within SAME_SPOT_RADIUS_M and has the same store type, which catches
+ *    renamed stations (e.g. a rebrand from Exxon to Mobil).
+ *
+ * OSM id matches always win; otherwise the closest candidate is used.
+ */
+
+import type { NeonQueryFunction } from '@neondatabase/serverless';
+import type { DiscoveredStore } from './overpass';
+
+export const MATCH_RADIUS_M = 100;
+export const SAME_SPOT_RADIUS_M = 25;
+export const MIN_NAME_SIMILARITY = 0.3;
+
+export interface StoreMatch {
+  storeId: number;
+  name: string;
+  address: string;
+  /** OSM element the existing store is linked to (null for stores added by hand or before OSM ids were stored) */
+  osmType: string | null;
+  osmId: number | null;
+  match: 'osm_id' | 'proximity';
+  distanceMeters: number;
+  /** pg_trgm similarity of the two names, 0 to 1 */
+  nameSimilarity: number;
+}
+
+/**
+ * Find the existing store a discovered store corresponds to
+ *
+ * @returns The best match, or null when the store is new
+ */
+export async function findMatchingStore(
+  sql: NeonQueryFunction<false, false>,
+  store: DiscoveredStore
+): Promise<StoreMatch | null> {
+  const rows = await sql`
+    WITH point AS (
+      SELECT ST_SetSRID(ST_MakePoint(${store.longitude}, ${store.latitude}), 4326)::geography AS geog
+    )
+    SELECT
+      s.id, s.name, s.address, s.osm_type, s.osm_id,
+      COALESCE(s.osm_type = ${store.osmType} AND s.osm_id = ${store.osmId}, false) AS same_element,
+      ST_Distance(s.location, point.geog) AS distance_m,
+      similarity(LOWER(s.name), LOWER(${store.name})) AS name_similarity
+    FROM stores s, point
+    WHERE (s.osm_type = ${store.osmType} AND s.osm_id = ${store.osmId})
+    OR (
+      ST_DWithin(s.location, point.geog, ${MATCH_RADIUS_M})
+      AND (
+        similarity(LOWER(s.name), LOWER(${store.name})) >= ${MIN_NAME_SIMILARITY}
+        OR (ST_DWithin(s.location, point.geog, ${SAME_SPOT_RADIUS_M}) AND s.store_type = ${store.storeType})
+      )
+    )
+    ORDER BY same_element DESC, distance_m
+    LIMIT 1
+  `;
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const row = rows[0];
+
+  return {
+    storeId: row.id,
+    name: row.name,
+    address: row.address,
+    osmType: row.osm_type,
+    osmId: row.osm_id !== null ? Number(row.osm_id) : null,
+    match: row.same_element ? 'osm_id' : 'proximity',
+    distanceMeters: Math.round(parseFloat(row.distance_m)),
+    nameSimilarity: Math.round(parseFloat(row.name_similarity) * 100) / 100,
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Store types
+ *
+ * Every store is classified by the kind of place it is, which is also the
+ * OpenStreetMap category it is discovered from (see src/lib/overpass.ts).
+ */
+
+import type { StoreType } from '@/types';
+
+export const STORE_TYPES: readonly StoreType[] = [
+  'fuel',
+  'convenience',
+  'supermarket',
+  'kiosk',
+  'pharmacy',
+  'vending',
+];
+
+export const STORE_TYPE_LABELS: Record<StoreType, string> = {
+  fuel: 'Gas Station',
+  convenience: 'Convenience Store',
+  supermarket: 'Supermarket',
+  kiosk: 'Kiosk',
+  pharmacy: 'Pharmacy',
+  vending: 'Vending Machine',
+};
+
+export type StoreTypesParse =
+  | { valid: true; types: StoreType[] }
+  | { valid: false; error: string };
+
+export function isStoreType(value: unknown): value is StoreType {
+  return typeof value === 'string' && STORE_TYPES.includes(value as StoreType);
+}
+
+/**
+ * Parse a store type filter
+ *
+ * @param input - Comma-separated string (query parameter) or array (JSON body)
+ * @returns The distinct store types, or an error naming the unknown ones
+ */
+export function parseStoreTypes(input: string | string[]): StoreTypesParse {
+  const values = (Array.isArray(input) ? input : input.split(','))
+    .map((value) => String(value).trim().toLowerCase())
+    .filter(Boolean);
+
+  const unknown = values.filter((value) => !isStoreType(value));
+
+  if (unknown.length > 0) {
+    return {
+      valid: false,
+      error: `Unknown store type: ${unknown.join(', ')} (expected ${STORE_TYPES.join(', ')})`,
+    };
+  }
+
+  if (values.length === 0) {
+    return { valid: false, error: `At least one store type is required (${STORE_TYPES.join(', ')})` };
+  }
+
+  return { valid: true, types: [...new Set(values)] as StoreType[] };
+}
@@ -1,15 +1,72 @@
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+/**
+ * Opening and closing time as "HH:MM" in the store's local time.
+ * A close time at or before the open time runs past midnight into the next day.
+ */
+export interface TimeRange {
+  open: string;
+  close: string;
+}
+
+/**
+ * Weekly opening hours, stored in stores.hours_json
+ * Days that are missing or have no ranges are closed.
+ */
+export interface StoreHours {
+  /** IANA time zone, e.g. "America/New_York" (default: derived from the store's state) */
+  timezone?: string;
+  /** Open 24/7; `days` is ignored when set */
+  always_open?: boolean;
+  days?: Partial<Record<Weekday, TimeRange[]>>;
+}
+
+/** Kind of place, matching the OpenStreetMap category it was discovered from */
+export type StoreType = 'fuel' | 'convenience' | 'supermarket' | 'kiosk' | 'pharmacy' | 'vending';
+
 export interface Store {
   id: number;
   name: string;
+  store_type?: StoreType;
   address: string;
   city: string;
   state: string;
   zip_code: string;
   latitude: number;
   longitude: number;
+  phone?: string | null;
+  website?: string | null;
+  operator?: string | null;
+  hours_json?: StoreHours | null;
+  /** Whether the store is open right now, or null when its hours are unknown */
+  open_now?: boolean | null;
+  /** Set when the store's OpenStreetMap element disappeared during an area sync */
+  possibly_closed_at?: Date | null;
   created_at?: Date;
 }
 
+/** Area in WGS84 degrees */
+export interface BoundingBox {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+/** Nearby stores grouped into one map marker at low zoom levels */
+export interface StoreCluster {
+  /** Grid cell the stores fall in, unique within a zoom level */
+  id: string;
+  /** Mean position of the stores */
+  latitude: number;
+  longitude: number;
+  count: number;
+  /** Stores in the cluster with the selected drink in stock (0 when no drink is selected) */
+  stocking_count: number;
+  /** Box around the stores, used to zoom in when the cluster is clicked */
+  bounds: BoundingBox;
+}
+
 export interface EnergyDrink {
   id: number;
   brand: string;
@@ -21,6 +78,94 @@ export interface EnergyDrink {
   calories?: number;
   description?: string;
   image_url?: string;
+  taurine_mg?: number;
+  vitamin_b3_mg?: number;
+  vitamin_b5_mg?: number;
+  vitamin_b6_mg?: number;
+  vitamin_b12_mcg?: number;
+  sweetener_type?: SweetenerType;
+  carbonated?: boolean;
+  caffeine_source?: CaffeineSource;
+}
+
+/** How a drink is sweetened (see src/lib/nutrition.ts) */
+export type SweetenerType = 'sugar' | 'artificial' | 'natural' | 'mixed' | 'unsweetened';
+
+/** Where a drink's caffeine comes from (see src/lib/nutrition.ts) */
+export type CaffeineSource = 'synthetic' | 'coffee' | 'tea' | 'guarana' | 'yerba_mate' | 'mixed';
+
+export type PackagingType = 'single' | 'multipack' | 'case' | 'promo' | 'regional';
+
+/** One of a drink's barcodes (see src/lib/packaging.ts) */
+export interface DrinkBarcode {
+  id: number;
+  drink_id: number;
+  barcode: string;
+  packaging: PackagingType;
+  /** Cans in the package, 1 for a single can */
+  pack_count: number;
+  created_at?: Date;
+}
+
+export type DrinkAliasKind = 'brand' | 'flavor';
+
+/** Another name for a brand or flavor (see src/lib/drink-aliases.ts) */
+export interface DrinkAlias {
+  id: number;
+  kind: DrinkAliasKind;
+  alias: string;
+  canonical: string;
+  /** Flavor aliases only: the brand they apply to, null for every brand */
+  brand: string | null;
+  created_at?: Date;
+}
+
+export type DuplicateReason = 'same_name' | 'similar_name' | 'same_product_code';
+
+/** Two drinks that may be the same product (see src/lib/drink-merge.ts) */
+export interface DuplicateDrinkCandidate {
+  drinks: [DuplicateDrinkSummary, DuplicateDrinkSummary];
+  reasons: DuplicateReason[];
+  /** pg_trgm similarity of the two names, 0 to 1 */
+  similarity: number;
+}
+
+export interface DuplicateDrinkSummary {
+  id: number;
+  brand: string;
+  flavor: string;
+  size_ml: number;
+  caffeine_mg: number | null;
+  barcode: string | null;
+  /** Stores listing the drink */
+  inventory_count: number;
+}
+
+/** Characters start (inclusive) to end (exclusive) of a string */
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/** A drink suggested for a typed query, with the parts of it the query matched */
+export interface DrinkSuggestion {
+  id: number;
+  brand: string;
+  flavor: string;
+  size_ml: number;
+  caffeine_mg: number | null;
+  image_url: string | null;
+  barcode: string | null;
+  /** Match quality, 1 for an exact name match */
+  score: number;
+  /** The alias-based name ("Monster Energy Green") when that matched better than the drink's own */
+  alias: string | null;
+  highlights: {
+    brand: TextRange[];
+    flavor: TextRange[];
+    barcode: TextRange[];
+    alias: TextRange[];
+  };
 }
 
 export interface StoreInventory {
@@ -31,17 +176,67 @@ export interface StoreInventory {
   last_updated?: Date;
 }
 
+/** How much to trust an inventory entry (see src/lib/confidence.ts) */
+export interface InventoryConfidence {
+  /** 0 to 1, from the age of the latest report, confirmations and conflicts */
+  confidence: number;
+  /** Below the minimum confidence */
+  stale: boolean;
+}
+
+/** A drink on a store's shelf, as listed in the store detail panel */
+export interface StoreInventoryItem extends EnergyDrink, InventoryConfidence {
+  price: number;
+  in_stock: boolean;
+  last_updated: Date;
+  /** Reports on different days within 30 days of the latest that agree with it */
+  confirmations: number;
+  /** Reports in the same window that disagree about availability */
+  conflicts: number;
+}
+
+export interface StoreDetail extends Store {
+  /** Everything the store carries, cheapest first, with stale entries last */
+  inventory: StoreInventoryItem[];
+}
+
+export interface PriceObservation {
+  store_id: number;
+  drink_id: number;
+  /** null for a stock report on a drink the store didn't list */
+  price: number | null;
+  in_stock: boolean;
+  observed_at: Date;
+}
+
+export interface StorePriceSummary {
+  store_id: number;
+  store_name: string;
+  /** Prices are null when the store only has reports without a price */
+  first_price: number | null;
+  latest_price: number | null;
+  min_price: number | null;
+  max_price: number | null;
+  observations: number;
+  /** Observations (scans or stock reports) that found the drink out of stock */
+  out_of_stock_observations: number;
+}
+
 export interface SearchParams {
   latitude: number;
   longitude: number;
   radius_km?: number;
+  drink_id?: number;
   brand?: string;
   flavor?: string;
+  limit?: number;
+  open_now?: boolean;
+  store_type?: StoreType[];
 }
 
 export interface SearchResult extends Store {
   distance_km: number;
-  available_drinks: Array<EnergyDrink & { price: number; in_stock: boolean }>;
+  available_drinks: StoreInventoryItem[];
 }
 
 export interface ScanRequest {
@@ -53,14 +248,56 @@ export interface ScanRequest {
   in_stock?: boolean;
 }
 
+/** Outcome of reporting whether a store has a drink (see src/lib/stock-reports.ts) */
+export interface StockReportResult {
+  /** Availability after the report; false while the store doesn't list the drink */
+  in_stock: boolean;
+  /** The store lists the drink; reports for unlisted drinks are only logged */
+  listed: boolean;
+  /** The report changed the drink's availability */
+  flipped: boolean;
+  /** Days with a report agreeing with this one since the inventory last changed, including today */
+  agreeing_reports: number;
+  reports_to_flip: number;
+}
+
 export interface ScanResponse {
   success: boolean;
   message: string;
   data?: {
     drink: EnergyDrink;
     store: Store;
-    inventory: StoreInventory;
+    /** null when an out-of-stock report was for a drink the store doesn't list */
+    inventory: StoreInventory | null;
     was_created: boolean;
+    /** The drink's barcode that was scanned */
+    scanned_barcode: DrinkBarcode;
+    /** Set when the scan reported the drink out of stock */
+    stock_report?: StockReportResult;
   };
+  pending_product_id?: number;
   error?: string;
 }
+
+export interface PendingProduct {
+  id: number;
+  barcode: string;
+  store_id?: number | null;
+  status: 'pending' | 'created' | 'dismissed';
+  drink_id?: number | null;
+  scan_count: number;
+  first_seen_at?: Date;
+  last_seen_at?: Date;
+}
+
+export interface NewProductRequest {
+  barcode: string;
+  brand: string;
+  flavor: string;
+  size_ml: number;
+  caffeine_mg?: number;
+  sugar_g?: number;
+  calories?: number;
+  store_id?: number;
+  price?: number;
+}